@@ -1,4 +1,4 @@
-import { Plugin, MarkdownView } from "obsidian";
+import { Editor, Plugin, MarkdownView, Notice, TFile } from "obsidian";
 import {
 	DEFAULT_SETTINGS,
 	ReflectorSettings,
@@ -7,24 +7,63 @@ import {
 import { MeetingNoteParser } from "./services/meeting-note-parser";
 import { TagService } from "./services/tag-service";
 import { TodoService } from "./services/todo-service";
+import { TagWriter } from "./services/tag-writer";
+import { TagRewriter } from "./services/tag-rewriter";
+import { ReviewPeriodKind, ReviewService } from "./services/review-service";
+import { MeetingWriter } from "./services/meeting-writer";
+import { MeetingSearch } from "./services/meeting-search";
+import { MeetingExporter } from "./services/meeting-exporter";
+import { CalendarImporter } from "./services/calendar-importer";
+import { TagHealthService } from "./services/tag-health";
 import { ReflectorView, VIEW_TYPE_REFLECTOR } from "./views/reflector-view";
+import { ActionItemsView, VIEW_TYPE_ACTION_ITEMS } from "./views/action-items-view";
+import { SearchView, VIEW_TYPE_SEARCH } from "./views/search-view";
+import { TimelineView, VIEW_TYPE_TIMELINE } from "./views/timeline-view";
+import { TagHealthView, VIEW_TYPE_TAG_HEALTH } from "./views/tag-health-view";
+import { TriageModal } from "./views/triage-modal";
+import { TagRenameModal } from "./views/tag-rename-modal";
+import { ReviewPeriodModal } from "./views/review-period-modal";
+import { NewMeetingModal } from "./views/new-meeting-modal";
+import { ExportModal } from "./views/export-modal";
+import { CalendarImportModal } from "./views/calendar-import-modal";
+import type { MeetingNote } from "./types";
 
 export default class ReflectorPlugin extends Plugin {
 	settings: ReflectorSettings;
 	parser: MeetingNoteParser;
 	tagService: TagService;
 	todoService: TodoService;
+	tagWriter: TagWriter;
+	tagRewriter: TagRewriter;
+	reviewService: ReviewService;
+	meetingWriter: MeetingWriter;
+	meetingSearch: MeetingSearch;
+	meetingExporter: MeetingExporter;
+	calendarImporter: CalendarImporter;
+	tagHealthService: TagHealthService;
 
 	async onload(): Promise<void> {
 		await this.loadSettings();
 
 		// Initialize services
 		this.parser = new MeetingNoteParser(this.app, this.settings);
-		this.tagService = new TagService(this.app);
-		this.todoService = new TodoService(this.app);
+		this.tagService = new TagService(this.app, this.parser);
+		this.todoService = new TodoService(this.app, this.settings);
+		this.tagWriter = new TagWriter(this.app);
+		this.tagRewriter = new TagRewriter(this.app, this.parser);
+		this.reviewService = new ReviewService(this.app, this.settings, this.parser, this.todoService);
+		this.meetingWriter = new MeetingWriter(this.app, this.settings, this.parser);
+		this.meetingSearch = new MeetingSearch(this.todoService);
+		this.meetingExporter = new MeetingExporter(this.app, this.settings, this.parser, this.meetingSearch);
+		this.calendarImporter = new CalendarImporter(this.parser, this.meetingWriter);
+		this.tagHealthService = new TagHealthService(this.settings, this.parser, this.tagService);
 
 		// Register the sidebar view
 		this.registerView(VIEW_TYPE_REFLECTOR, (leaf) => new ReflectorView(leaf, this));
+		this.registerView(VIEW_TYPE_ACTION_ITEMS, (leaf) => new ActionItemsView(leaf, this));
+		this.registerView(VIEW_TYPE_SEARCH, (leaf) => new SearchView(leaf, this));
+		this.registerView(VIEW_TYPE_TIMELINE, (leaf) => new TimelineView(leaf, this));
+		this.registerView(VIEW_TYPE_TAG_HEALTH, (leaf) => new TagHealthView(leaf, this));
 
 		// Auto-open sidebar when plugin loads
 		this.app.workspace.onLayoutReady(() => {
@@ -50,6 +89,92 @@ export default class ReflectorPlugin extends Plugin {
 			callback: () => void this.refreshView(),
 		});
 
+		// Add command to add a meeting to today's daily note
+		this.addCommand({
+			id: "new-meeting",
+			name: "New meeting",
+			callback: () => this.openNewMeeting(),
+		});
+
+		// Add command to add meetings from an exported calendar file
+		this.addCommand({
+			id: "import-calendar",
+			name: "Import meetings from calendar file",
+			callback: () => new CalendarImportModal(this.app, this).open(),
+		});
+
+		// Add command to list open action items from every meeting
+		this.addCommand({
+			id: "open-action-items",
+			name: "Open action items",
+			callback: () => void this.activateView(VIEW_TYPE_ACTION_ITEMS),
+		});
+
+		// Add command to search all meeting notes
+		this.addCommand({
+			id: "search-meetings",
+			name: "Search meetings",
+			callback: () => void this.activateView(VIEW_TYPE_SEARCH),
+		});
+
+		// Add command to show meetings per day and per tag over time
+		this.addCommand({
+			id: "open-timeline",
+			name: "Open meeting timeline",
+			callback: () => void this.activateView(VIEW_TYPE_TIMELINE),
+		});
+
+		// Add command to triage untagged notes one at a time
+		this.addCommand({
+			id: "triage-untagged",
+			name: "Triage untagged notes",
+			callback: () => this.openTriage(),
+		});
+
+		// Add command to rename or merge tags across the vault
+		this.addCommand({
+			id: "rename-tag",
+			name: "Rename / merge tag",
+			callback: () => new TagRenameModal(this.app, this).open(),
+		});
+
+		// Add command to list tags worth cleaning up
+		this.addCommand({
+			id: "open-tag-health",
+			name: "Open tag health report",
+			callback: () => void this.activateView(VIEW_TYPE_TAG_HEALTH),
+		});
+
+		// Add command to copy open TODOs from the last occurrence of this meeting
+		this.addCommand({
+			id: "carry-forward-todos",
+			name: "Carry forward open tasks from the previous meeting",
+			editorCallback: (editor, ctx) => {
+				if (ctx.file) {
+					void this.carryForwardTodos(editor, ctx.file);
+				}
+			},
+		});
+
+		// Add commands to write a review note for a week or month
+		this.addCommand({
+			id: "generate-weekly-review",
+			name: "Generate weekly review",
+			callback: () => this.chooseReviewPeriod("week"),
+		});
+		this.addCommand({
+			id: "generate-monthly-review",
+			name: "Generate monthly review",
+			callback: () => this.chooseReviewPeriod("month"),
+		});
+
+		// Add command to export meeting notes to JSON, CSV or Markdown
+		this.addCommand({
+			id: "export-meetings",
+			name: "Export meetings",
+			callback: () => new ExportModal(this.app, this).open(),
+		});
+
 		// Register settings tab
 		this.addSettingTab(new ReflectorSettingTab(this.app, this));
 
@@ -76,43 +201,194 @@ export default class ReflectorPlugin extends Plugin {
 			window.setInterval(() => this.checkCursorPosition(), 300)
 		);
 
-		// Listen for file modifications
+		// Keep the meeting note index in sync with the vault, re-parsing
+		// only the file that changed before refreshing the sidebar
+		// Listens to the metadata cache rather than vault "modify" so that
+		// frontmatter (used to detect meeting files) is up to date
 		this.registerEvent(
-			this.app.vault.on("modify", () => {
+			this.app.metadataCache.on("changed", (file) => {
+				void this.reindexFile(file);
+			})
+		);
+		// The vault fires "create" for every file while it loads, and the
+		// index is built on first use anyway, so only listen once it's ready
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(
+				this.app.vault.on("create", (file) => {
+					if (file instanceof TFile) {
+						void this.reindexFile(file);
+					}
+				})
+			);
+		});
+		this.registerEvent(
+			this.app.vault.on("delete", (file) => {
+				this.parser.removeFile(file.path);
 				this.refreshView();
 			})
 		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				if (file instanceof TFile) {
+					void this.parser.renameFile(file, oldPath).then(() => this.refreshView());
+					void this.renameIgnoredNotes(oldPath, file.path);
+				} else {
+					// A folder moved - paths of everything inside it changed
+					this.parser.invalidate();
+					this.refreshView();
+				}
+			})
+		);
 	}
 
+
 	onunload(): void {
 		// Note: Don't detach leaves here as it resets leaf position on reload
 	}
 
 	async loadSettings(): Promise<void> {
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			(await this.loadData()) as Partial<ReflectorSettings>
-		);
+		const data = (await this.loadData()) as
+			| (Partial<ReflectorSettings> & { meetingNotesHeader?: string })
+			| null;
+
+		// Migrate the single meeting header from older versions
+		if (data?.meetingNotesHeader && !data.meetingNotesHeaders) {
+			data.meetingNotesHeaders = [data.meetingNotesHeader];
+		}
+		delete data?.meetingNotesHeader;
+
+		this.settings = Object.assign({}, DEFAULT_SETTINGS, data);
+		// Status characters added in a newer version keep their defaults
+		this.settings.taskStatusSymbols = {
+			...DEFAULT_SETTINGS.taskStatusSymbols,
+			...data?.taskStatusSymbols,
+		};
+		// Own copies, so pushing to a list never changes DEFAULT_SETTINGS
+		this.settings.meetingNotesHeaders = [...this.settings.meetingNotesHeaders];
+		this.settings.ignoredUntaggedNotes = [...this.settings.ignoredUntaggedNotes];
 	}
 
-	async saveSettings(): Promise<void> {
+	/**
+	 * Persist settings. Pass reindex = false for changes that don't affect
+	 * parsing, such as the list of intentionally untagged notes.
+	 */
+	async saveSettings(reindex = true): Promise<void> {
 		await this.saveData(this.settings);
-		// Reinitialize parser with new settings
-		this.parser = new MeetingNoteParser(this.app, this.settings);
+		// Settings may change what counts as a meeting note - rebuild the index
+		if (reindex) {
+			this.parser.invalidate();
+		}
 		void this.refreshView();
 	}
 
-	async activateView(): Promise<void> {
+	/**
+	 * Hide a meeting note from the untagged list without tagging it
+	 */
+	async markIntentionallyUntagged(note: MeetingNote): Promise<void> {
+		const key = this.parser.getNoteKey(note);
+		if (!this.settings.ignoredUntaggedNotes.includes(key)) {
+			this.settings.ignoredUntaggedNotes.push(key);
+			await this.saveSettings(false);
+		}
+	}
+
+	openTriage(): void {
+		new TriageModal(this.app, this).open();
+	}
+
+	openNewMeeting(): void {
+		new NewMeetingModal(this.app, this).open();
+	}
+
+	/**
+	 * Copy the open TODOs of the previous occurrence of the meeting under the
+	 * cursor to the end of that meeting, each linking back to its original
+	 */
+	private async carryForwardTodos(editor: Editor, file: TFile): Promise<void> {
+		const note = await this.parser.getMeetingNoteAtCursor(file, editor.getCursor().line);
+		if (!note) {
+			new Notice("Place the cursor in a meeting note");
+			return;
+		}
+
+		const previous = (await this.parser.getSeriesHistory(note))[0];
+		if (!previous) {
+			new Notice(`No earlier "${note.title}" meeting found`);
+			return;
+		}
+
+		const items = await this.todoService.getCarryForwardItems(previous, note);
+		if (items.length === 0) {
+			new Notice(`Nothing to carry forward from ${previous.date}`);
+			return;
+		}
+
+		// Mark the originals first: in the same file, through the editor so
+		// the two changes can't overwrite each other
+		let forwarded = 0;
+		if (this.settings.markCarriedForwardTodos) {
+			for (const item of items) {
+				if (item.file.path === file.path) {
+					const updated = this.todoService.lineWithStatus(item.raw, "forwarded");
+					if (updated && editor.getLine(item.line) === item.raw) {
+						editor.setLine(item.line, updated);
+						forwarded++;
+					}
+				} else if (await this.todoService.setStatus(item, "forwarded")) {
+					forwarded++;
+				}
+			}
+		}
+
+		// Insert after the last non-empty line of the meeting
+		let insertAfter = Math.min(note.lineEnd, editor.lineCount()) - 1;
+		while (insertAfter > note.lineStart && editor.getLine(insertAfter).trim() === "") {
+			insertAfter--;
+		}
+		const lines = items.map((item) => this.todoService.formatCarriedTodo(item, file.path));
+		editor.replaceRange(`\n${lines.join("\n")}`, {
+			line: insertAfter,
+			ch: editor.getLine(insertAfter).length,
+		});
+
+		const count = `${items.length} TODO${items.length === 1 ? "" : "s"}`;
+		new Notice(
+			this.settings.markCarriedForwardTodos
+				? `Carried forward ${count} from ${previous.date}, ${forwarded} marked as forwarded`
+				: `Carried forward ${count} from ${previous.date}`
+		);
+	}
+
+	/**
+	 * Ask which week or month to review, then write and open its review note
+	 */
+	private chooseReviewPeriod(kind: ReviewPeriodKind): void {
+		new ReviewPeriodModal(this.app, this.reviewService, kind, (period) => {
+			void this.reviewService.writeReview(period).then(async ({ file, created }) => {
+				if (!created) {
+					new Notice(`${period.title} already exists. Delete it to generate it again.`);
+				}
+				await this.app.workspace.getLeaf(false).openFile(file);
+			}, (error) => {
+				console.error("[Reflector] Could not write review", error);
+				new Notice(`Could not write ${period.title}`);
+			});
+		}).open();
+	}
+
+	/**
+	 * Reveal a view in the right sidebar, opening it if needed
+	 */
+	async activateView(viewType = VIEW_TYPE_REFLECTOR): Promise<void> {
 		const { workspace } = this.app;
 
-		let leaf = workspace.getLeavesOfType(VIEW_TYPE_REFLECTOR)[0];
+		let leaf = workspace.getLeavesOfType(viewType)[0];
 
 		if (!leaf) {
 			const rightLeaf = workspace.getRightLeaf(false);
 			if (rightLeaf) {
 				await rightLeaf.setViewState({
-					type: VIEW_TYPE_REFLECTOR,
+					type: viewType,
 					active: true,
 				});
 				leaf = rightLeaf;
@@ -156,12 +432,58 @@ export default class ReflectorPlugin extends Plugin {
 		}
 	}
 
-	private refreshView(): void {
+	/**
+	 * Keep intentionally untagged notes hidden after their file is renamed
+	 */
+	private async renameIgnoredNotes(oldPath: string, newPath: string): Promise<void> {
+		const prefix = `${oldPath}#`;
+		const ignored = this.settings.ignoredUntaggedNotes;
+		if (!ignored.some((key) => key.startsWith(prefix))) return;
+
+		this.settings.ignoredUntaggedNotes = ignored.map((key) =>
+			key.startsWith(prefix) ? `${newPath}#${key.slice(prefix.length)}` : key
+		);
+		await this.saveSettings(false);
+	}
+
+	/**
+	 * Re-parse a single changed file into the index, then refresh the sidebar
+	 */
+	private async reindexFile(file: TFile): Promise<void> {
+		await this.parser.updateFile(file);
+		this.refreshView(file);
+	}
+
+	private refreshView(changedFile?: TFile): void {
 		const leaves = this.app.workspace.getLeavesOfType(VIEW_TYPE_REFLECTOR);
 		for (const leaf of leaves) {
 			const view = leaf.view;
 			if (view instanceof ReflectorView) {
-				void view.refresh();
+				void view.refresh(changedFile);
+			}
+		}
+
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_ACTION_ITEMS)) {
+			if (leaf.view instanceof ActionItemsView) {
+				leaf.view.onVaultChange();
+			}
+		}
+
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_SEARCH)) {
+			if (leaf.view instanceof SearchView) {
+				leaf.view.onVaultChange();
+			}
+		}
+
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_TIMELINE)) {
+			if (leaf.view instanceof TimelineView) {
+				leaf.view.onVaultChange();
+			}
+		}
+
+		for (const leaf of this.app.workspace.getLeavesOfType(VIEW_TYPE_TAG_HEALTH)) {
+			if (leaf.view instanceof TagHealthView) {
+				leaf.view.onVaultChange();
 			}
 		}
 	}
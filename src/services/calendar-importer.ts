@@ -0,0 +1,112 @@
+import type { MeetingNote } from "../types";
+import type { CalendarOccurrence } from "./ics-parser";
+import type { MeetingNoteParser } from "./meeting-note-parser";
+import type { MeetingWriter } from "./meeting-writer";
+
+/**
+ * What an import did
+ */
+export interface CalendarImportResult {
+	added: number;
+	/** Meetings that were already in their daily note */
+	skipped: number;
+}
+
+/**
+ * Adds calendar events as meeting stubs in their daily notes. Meetings that
+ * already exist are skipped, so importing the same file twice adds nothing.
+ */
+export class CalendarImporter {
+	constructor(
+		private parser: MeetingNoteParser,
+		private meetingWriter: MeetingWriter
+	) {}
+
+	/**
+	 * Write a stub for each timed occurrence that isn't in its daily note yet.
+	 * All-day events are not meetings and are left out.
+	 */
+	async import(
+		occurrences: CalendarOccurrence[],
+		includeDescriptions: boolean
+	): Promise<CalendarImportResult> {
+		const existing = new Set(
+			(await this.parser.getAllMeetingNotes()).map((note) => this.getNoteKey(note))
+		);
+		const result: CalendarImportResult = { added: 0, skipped: 0 };
+
+		for (const occurrence of occurrences) {
+			if (occurrence.allDay) continue;
+
+			const date = occurrence.start.format("YYYY-MM-DD");
+			const startTime = occurrence.start.format("HH:mm");
+			const title = this.escapeHashes(occurrence.summary.replace(/\s+/g, " ").trim());
+			const key = this.getKey(date, title, startTime);
+			// A meeting written without a time counts as the same meeting too
+			if (existing.has(key) || existing.has(this.getKey(date, title))) {
+				result.skipped++;
+				continue;
+			}
+
+			// Events ending on a later day get no end time
+			const end = occurrence.end?.isSame(occurrence.start, "day")
+				? occurrence.end.format("HH:mm")
+				: undefined;
+			await this.meetingWriter.createMeeting({
+				date,
+				title,
+				startTime,
+				endTime: end !== startTime ? end : undefined,
+				attendees: occurrence.attendees,
+				tags: [],
+				description: includeDescriptions ? this.formatDescription(occurrence.description) : undefined,
+			});
+			existing.add(key);
+			result.added++;
+		}
+
+		console.debug("[Reflector] Calendar import finished", result);
+		return result;
+	}
+
+	/**
+	 * Quote the description so its lines can't end the meeting as headings,
+	 * and escape hashes so its text doesn't turn into tags
+	 */
+	private formatDescription(description: string): string | undefined {
+		const text = description.trim();
+		if (!text) return undefined;
+		return text
+			.split(/\r?\n/)
+			.map((line) => this.escapeHashes(line.trimEnd()))
+			.map((line) => (line ? `> ${line}` : ">"))
+			.join("\n");
+	}
+
+	/**
+	 * Escape hashes that start a word, so "Sprint #12" doesn't become a tag
+	 * or a line a heading
+	 */
+	private escapeHashes(text: string): string {
+		return text.replace(/(^|\s)#/g, "$1\\#");
+	}
+
+	private getNoteKey(note: MeetingNote): string {
+		return this.getKey(note.date, note.title, note.startTime);
+	}
+
+	/**
+	 * Meetings match on date, title and start time. Titles are compared
+	 * ignoring case and tags, so tagging an imported meeting keeps it matched.
+	 * Escaped hashes are dropped too, matching meetings imported before
+	 * titles were escaped.
+	 */
+	private getKey(date: string, title: string, startTime?: string): string {
+		const normalized = title
+			.replace(/\\?#[\w/-]+/g, " ")
+			.replace(/\s+/g, " ")
+			.trim()
+			.toLowerCase();
+		return `${date}|${normalized}|${startTime ?? ""}`;
+	}
+}
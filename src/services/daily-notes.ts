@@ -0,0 +1,144 @@
+import { App, TFile, moment, normalizePath } from "obsidian";
+import type { ReflectorSettings } from "../settings";
+
+const DEFAULT_DAILY_NOTE_FORMAT = "YYYY-MM-DD";
+
+/**
+ * Where daily notes live and how their filenames encode the date
+ */
+export interface DailyNoteLocation {
+	/** Folder relative to the vault root ("" for the root) */
+	folder: string;
+	/** Moment format of the path below the folder, without the .md extension */
+	format: string;
+}
+
+/** Options stored by the core Daily Notes plugin */
+interface CoreDailyNotesOptions {
+	folder?: string;
+	format?: string;
+}
+
+/** Daily settings stored by the Periodic Notes community plugin */
+interface PeriodicNotesDailySettings {
+	enabled?: boolean;
+	folder?: string;
+	format?: string;
+}
+
+/** The undocumented parts of App used to read other plugins' settings */
+interface AppWithPlugins {
+	internalPlugins?: {
+		getPluginById(id: string): {
+			enabled: boolean;
+			instance?: { options?: CoreDailyNotesOptions };
+		} | null;
+	};
+	plugins?: {
+		getPlugin(id: string): {
+			settings?: { daily?: PeriodicNotesDailySettings };
+		} | null;
+	};
+}
+
+/**
+ * Finds daily notes in the vault and parses their dates from the filename
+ */
+export class DailyNoteLocator {
+	constructor(
+		private app: App,
+		private settings: ReflectorSettings
+	) {}
+
+	/**
+	 * Resolve the daily notes folder and filename format, optionally taken
+	 * from the Periodic Notes or core Daily Notes configuration
+	 */
+	getLocation(): DailyNoteLocation {
+		if (this.settings.useCoreDailyNotesSettings) {
+			const external = this.getExternalLocation();
+			if (external) return external;
+		}
+
+		return {
+			folder: this.normalizeFolder(this.settings.dailyNotesFolder),
+			format: this.settings.dailyNoteFormat.trim() || DEFAULT_DAILY_NOTE_FORMAT,
+		};
+	}
+
+	/**
+	 * Parse the date of a daily note from its path.
+	 * Returns YYYY-MM-DD, or null if the file is not a daily note.
+	 */
+	getDate(file: TFile): string | null {
+		return this.getDateAt(file, this.getLocation());
+	}
+
+	/**
+	 * Path of the daily note for a date (YYYY-MM-DD), whether or not it exists
+	 */
+	getPathForDate(date: string): string {
+		const { folder, format } = this.getLocation();
+		const relativePath = moment(date, "YYYY-MM-DD").format(format);
+		return normalizePath(folder ? `${folder}/${relativePath}.md` : `${relativePath}.md`);
+	}
+
+	/**
+	 * Get all daily note files below the configured folder
+	 */
+	getFiles(): TFile[] {
+		const location = this.getLocation();
+		return this.app.vault
+			.getMarkdownFiles()
+			.filter((file) => this.getDateAt(file, location) !== null);
+	}
+
+	private getDateAt(file: TFile, location: DailyNoteLocation): string | null {
+		if (file.extension !== "md") return null;
+
+		const { folder, format } = location;
+		const prefix = folder ? `${folder}/` : "";
+		if (!file.path.startsWith(prefix)) return null;
+
+		const relativePath = file.path.slice(prefix.length, -".md".length);
+		const formatHasFolders = format.includes("/");
+
+		// Without folders in the format, only direct children count unless
+		// subfolder scanning is enabled
+		if (!formatHasFolders && !this.settings.includeSubfolders && relativePath.includes("/")) {
+			return null;
+		}
+
+		const dateText = formatHasFolders ? relativePath : file.basename;
+		const date = moment(dateText, format, true);
+		return date.isValid() ? date.format("YYYY-MM-DD") : null;
+	}
+
+	private getExternalLocation(): DailyNoteLocation | null {
+		const app = this.app as unknown as AppWithPlugins;
+
+		const periodic = app.plugins?.getPlugin("periodic-notes")?.settings?.daily;
+		if (periodic?.enabled) {
+			return {
+				folder: this.normalizeFolder(periodic.folder ?? ""),
+				format: periodic.format || DEFAULT_DAILY_NOTE_FORMAT,
+			};
+		}
+
+		const core = app.internalPlugins?.getPluginById("daily-notes");
+		if (core?.enabled) {
+			const options = core.instance?.options ?? {};
+			return {
+				folder: this.normalizeFolder(options.folder ?? ""),
+				format: options.format || DEFAULT_DAILY_NOTE_FORMAT,
+			};
+		}
+
+		return null;
+	}
+
+	private normalizeFolder(folder: string): string {
+		const normalized = normalizePath(folder.trim());
+		return normalized === "/" ? "" : normalized;
+	}
+}
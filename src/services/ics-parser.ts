@@ -0,0 +1,534 @@
+import { moment } from "obsidian";
+
+/**
+ * A date or date-time as written in the calendar, before time zone conversion
+ */
+interface IcsDateTime {
+	/** Wall-clock time, held in a UTC moment so date arithmetic ignores DST */
+	wall: moment.Moment;
+	/** "UTC", a time zone name from TZID, or null for floating local times */
+	zone: string | null;
+	allDay: boolean;
+}
+
+/**
+ * A VEVENT from an ICS file
+ */
+export interface IcsEvent {
+	uid: string;
+	summary: string;
+	description: string;
+	start: IcsDateTime;
+	/** Length of the event in milliseconds, 0 when it has no end */
+	durationMs: number;
+	attendees: string[];
+	rrule: string | null;
+	exdates: IcsDateTime[];
+	/** Set on an edited occurrence of a recurring event */
+	recurrenceId: IcsDateTime | null;
+	cancelled: boolean;
+}
+
+/**
+ * A single meeting on the calendar, with recurrences expanded, in local time
+ */
+export interface CalendarOccurrence {
+	uid: string;
+	summary: string;
+	description: string;
+	start: moment.Moment;
+	end: moment.Moment | null;
+	allDay: boolean;
+	attendees: string[];
+}
+
+/**
+ * The occurrences of a calendar in a date range
+ */
+export interface CalendarExpansion {
+	occurrences: CalendarOccurrence[];
+	/** Titles of recurring events that stopped repeating before the range ended */
+	truncated: string[];
+}
+
+interface ContentLine {
+	name: string;
+	params: Record<string, string>;
+	value: string;
+}
+
+interface RecurrenceRule {
+	freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+	interval: number;
+	count: number | null;
+	until: IcsDateTime | null;
+	/** Weekdays (0 = Sunday), with an ordinal for "2nd Tuesday" style rules */
+	byDay: { weekday: number; ordinal: number | null }[];
+	byMonthDay: number[];
+	/** 1-12 */
+	byMonth: number[];
+}
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const DATE_TIME_REGEX = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/;
+/** Stop expanding a rule after this many periods from the start of the range */
+const MAX_PERIODS = 5000;
+const PERIOD_UNITS = {
+	DAILY: "days",
+	WEEKLY: "weeks",
+	MONTHLY: "months",
+	YEARLY: "years",
+} as const;
+
+/** Formatters per time zone, used to find a zone's UTC offset */
+const zoneFormatters = new Map<string, Intl.DateTimeFormat | null>();
+
+/**
+ * Read the VEVENTs of an ICS file. Events without a start are skipped.
+ */
+export function parseIcs(text: string): IcsEvent[] {
+	// Long lines are folded onto continuation lines starting with whitespace
+	const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+
+	const events: IcsEvent[] = [];
+	const components: string[] = [];
+	let current: Partial<IcsEvent> & { end?: IcsDateTime; duration?: string } = {};
+
+	for (const raw of lines) {
+		const line = parseContentLine(raw);
+		if (!line) continue;
+
+		if (line.name === "BEGIN") {
+			components.push(line.value.toUpperCase());
+			if (line.value.toUpperCase() === "VEVENT") {
+				current = { attendees: [], exdates: [] };
+			}
+			continue;
+		}
+		if (line.name === "END") {
+			const ended = components.pop();
+			if (ended === "VEVENT" && current.start) {
+				events.push(finishEvent(current, current.start));
+			}
+			continue;
+		}
+		// Only read properties of the event itself, not of its alarms
+		if (components[components.length - 1] !== "VEVENT") continue;
+
+		switch (line.name) {
+			case "UID":
+				current.uid = line.value;
+				break;
+			case "SUMMARY":
+				current.summary = unescapeText(line.value);
+				break;
+			case "DESCRIPTION":
+				current.description = unescapeText(line.value);
+				break;
+			case "DTSTART":
+				current.start = parseDateTime(line.value, line.params) ?? undefined;
+				break;
+			case "DTEND":
+				current.end = parseDateTime(line.value, line.params) ?? undefined;
+				break;
+			case "DURATION":
+				current.duration = line.value;
+				break;
+			case "RRULE":
+				current.rrule = line.value;
+				break;
+			case "EXDATE":
+				for (const value of line.value.split(",")) {
+					const exdate = parseDateTime(value, line.params);
+					if (exdate) current.exdates?.push(exdate);
+				}
+				break;
+			case "RECURRENCE-ID":
+				current.recurrenceId = parseDateTime(line.value, line.params);
+				break;
+			case "STATUS":
+				current.cancelled = line.value.toUpperCase() === "CANCELLED";
+				break;
+			case "ATTENDEE": {
+				const attendee = parseAttendee(line);
+				if (attendee) current.attendees?.push(attendee);
+				break;
+			}
+		}
+	}
+
+	return events;
+}
+
+/**
+ * Every occurrence of the events between two YYYY-MM-DD dates (inclusive,
+ * local time). Recurring events are expanded, skipping excluded dates and
+ * replacing edited occurrences with their edited version.
+ */
+export function expandEvents(events: IcsEvent[], from: string, to: string): CalendarExpansion {
+	// Edited occurrences replace the occurrence they were moved from
+	const replaced = new Map<string, Set<number>>();
+	for (const event of events) {
+		if (event.recurrenceId) {
+			const epochs = replaced.get(event.uid) ?? new Set<number>();
+			epochs.add(toLocal(event.recurrenceId).valueOf());
+			replaced.set(event.uid, epochs);
+		}
+	}
+
+	// Expand a day past each end, since time zone conversion can move a date
+	const rangeStart = moment.utc(from, "YYYY-MM-DD").subtract(2, "days");
+	const rangeEnd = moment.utc(to, "YYYY-MM-DD").add(2, "days");
+	const occurrences: CalendarOccurrence[] = [];
+	const truncated: string[] = [];
+
+	for (const event of events) {
+		if (event.cancelled) continue;
+
+		let starts = [event.start];
+		if (event.rrule && !event.recurrenceId) {
+			const expanded = expandRule(event.start, parseRule(event.rrule), rangeStart, rangeEnd);
+			starts = expanded.starts;
+			if (expanded.truncated) {
+				console.debug("[Reflector] Stopped expanding a recurring event", { summary: event.summary });
+				truncated.push(event.summary);
+			}
+		}
+		const excluded = new Set([
+			...event.exdates.map((exdate) => toLocal(exdate).valueOf()),
+			...(event.recurrenceId ? [] : replaced.get(event.uid) ?? []),
+		]);
+
+		for (const start of starts) {
+			const local = toLocal(start);
+			const date = local.format("YYYY-MM-DD");
+			if (date < from || date > to || excluded.has(local.valueOf())) continue;
+
+			occurrences.push({
+				uid: event.uid,
+				summary: event.summary,
+				description: event.description,
+				start: local,
+				end: event.durationMs > 0 ? local.clone().add(event.durationMs, "ms") : null,
+				allDay: start.allDay,
+				attendees: event.attendees,
+			});
+		}
+	}
+
+	return {
+		occurrences: occurrences.sort((a, b) => a.start.valueOf() - b.start.valueOf()),
+		truncated,
+	};
+}
+
+function finishEvent(
+	event: Partial<IcsEvent> & { end?: IcsDateTime; duration?: string },
+	start: IcsDateTime
+): IcsEvent {
+	let durationMs = 0;
+	if (event.end) {
+		durationMs = toLocal(event.end).valueOf() - toLocal(start).valueOf();
+	} else if (event.duration) {
+		durationMs = moment.duration(event.duration).asMilliseconds();
+	}
+
+	return {
+		uid: event.uid ?? "",
+		summary: event.summary?.trim() || "Untitled event",
+		description: event.description?.trim() ?? "",
+		start,
+		durationMs: Math.max(0, durationMs),
+		attendees: event.attendees ?? [],
+		rrule: event.rrule ?? null,
+		exdates: event.exdates ?? [],
+		recurrenceId: event.recurrenceId ?? null,
+		cancelled: event.cancelled ?? false,
+	};
+}
+
+/**
+ * Split "NAME;PARAM=value;PARAM="quoted: value":value". Colons and
+ * semicolons inside quotes don't count.
+ */
+function parseContentLine(raw: string): ContentLine | null {
+	let inQuotes = false;
+	const separators: number[] = [];
+	let colon = -1;
+	for (let i = 0; i < raw.length; i++) {
+		const char = raw[i];
+		if (char === '"') inQuotes = !inQuotes;
+		else if (!inQuotes && char === ";") separators.push(i);
+		else if (!inQuotes && char === ":") {
+			colon = i;
+			break;
+		}
+	}
+	if (colon === -1) return null;
+
+	const head = raw.slice(0, colon);
+	const bounds = [...separators, colon];
+	const params: Record<string, string> = {};
+	for (let i = 0; i < bounds.length - 1; i++) {
+		const param = head.slice((bounds[i] ?? 0) + 1, bounds[i + 1]);
+		const equals = param.indexOf("=");
+		if (equals > 0) {
+			params[param.slice(0, equals).toUpperCase()] = param.slice(equals + 1).replace(/^"|"$/g, "");
+		}
+	}
+
+	return {
+		name: head.slice(0, separators[0] ?? colon).toUpperCase(),
+		params,
+		value: raw.slice(colon + 1),
+	};
+}
+
+function parseDateTime(value: string, params: Record<string, string>): IcsDateTime | null {
+	const match = value.trim().match(DATE_TIME_REGEX);
+	if (!match) return null;
+
+	const [, year, month, day, hour, minute, second, utc] = match;
+	const allDay = hour === undefined || params.VALUE?.toUpperCase() === "DATE";
+	const wall = moment.utc(
+		`${year}-${month}-${day}T${allDay ? "00" : hour}:${allDay ? "00" : minute}:${second ?? "00"}`,
+		"YYYY-MM-DDTHH:mm:ss"
+	);
+	const zone = allDay ? null : utc ? "UTC" : params.TZID ?? null;
+	return { wall, zone, allDay };
+}
+
+/**
+ * The attendee's name, or the part of their address before the @.
+ * Rooms and other resources are skipped.
+ */
+function parseAttendee(line: ContentLine): string | null {
+	const type = line.params.CUTYPE?.toUpperCase();
+	if (type === "ROOM" || type === "RESOURCE") return null;
+
+	const name = line.params.CN?.trim();
+	if (name && !name.includes("@")) return name;
+
+	const address = (name ?? line.value).replace(/^mailto:/i, "");
+	return address.split("@")[0]?.trim() || null;
+}
+
+function unescapeText(value: string): string {
+	return value.replace(/\\([nN,;\\])/g, (match, char: string) =>
+		char === "n" || char === "N" ? "\n" : char
+	);
+}
+
+/**
+ * Convert a calendar time to a local moment
+ */
+function toLocal(time: IcsDateTime): moment.Moment {
+	const wall = time.wall.format("YYYY-MM-DDTHH:mm:ss");
+	if (time.allDay || time.zone === null) {
+		return moment(wall, "YYYY-MM-DDTHH:mm:ss");
+	}
+	if (time.zone === "UTC") {
+		return moment(time.wall.valueOf());
+	}
+
+	// The wall time read as UTC, corrected by the zone's offset at that time.
+	// The second pass settles times close to a DST change.
+	const guess = time.wall.valueOf();
+	const offset = getZoneOffset(guess, time.zone);
+	if (offset === null) {
+		console.debug("[Reflector] Unknown calendar time zone, using local time", { zone: time.zone });
+		return moment(wall, "YYYY-MM-DDTHH:mm:ss");
+	}
+	const corrected = getZoneOffset(guess - offset, time.zone) ?? offset;
+	return moment(guess - corrected);
+}
+
+/**
+ * How far ahead of UTC a time zone is at an instant, in milliseconds, or
+ * null if the zone isn't known
+ */
+function getZoneOffset(epoch: number, zone: string): number | null {
+	let formatter = zoneFormatters.get(zone);
+	if (formatter === undefined) {
+		try {
+			formatter = new Intl.DateTimeFormat("en-US", {
+				timeZone: zone,
+				hourCycle: "h23",
+				year: "numeric",
+				month: "2-digit",
+				day: "2-digit",
+				hour: "2-digit",
+				minute: "2-digit",
+				second: "2-digit",
+			});
+		} catch {
+			// Zone names from some calendar apps, e.g. "Pacific Standard Time"
+			formatter = null;
+		}
+		zoneFormatters.set(zone, formatter);
+	}
+	if (!formatter) return null;
+
+	const parts: Record<string, number> = {};
+	for (const part of formatter.formatToParts(epoch)) {
+		parts[part.type] = Number(part.value);
+	}
+	const asUtc = Date.UTC(
+		parts.year ?? 0,
+		(parts.month ?? 1) - 1,
+		parts.day ?? 1,
+		parts.hour ?? 0,
+		parts.minute ?? 0,
+		parts.second ?? 0
+	);
+	return asUtc - Math.floor(epoch / 1000) * 1000;
+}
+
+function parseRule(value: string): RecurrenceRule {
+	const parts: Record<string, string> = {};
+	for (const part of value.split(";")) {
+		const [key, val] = part.split("=");
+		if (key && val !== undefined) parts[key.toUpperCase()] = val.toUpperCase();
+	}
+
+	const freq = parts.FREQ;
+	const list = (key: string) => (parts[key] ? parts[key].split(",") : []);
+	return {
+		freq: freq === "DAILY" || freq === "MONTHLY" || freq === "YEARLY" ? freq : "WEEKLY",
+		interval: Math.max(1, Number(parts.INTERVAL) || 1),
+		count: parts.COUNT ? Number(parts.COUNT) || null : null,
+		until: parts.UNTIL ? parseDateTime(parts.UNTIL, {}) : null,
+		byDay: list("BYDAY")
+			.map((day) => day.match(/^([+-]?\d+)?([A-Z]{2})$/))
+			.filter((match): match is RegExpMatchArray => match !== null)
+			.map((match) => ({
+				weekday: WEEKDAYS.indexOf(match[2] ?? ""),
+				ordinal: match[1] ? Number(match[1]) : null,
+			}))
+			.filter((day) => day.weekday !== -1),
+		byMonthDay: list("BYMONTHDAY").map(Number).filter(Boolean),
+		byMonth: list("BYMONTH").map(Number).filter((month) => month >= 1 && month <= 12),
+	};
+}
+
+/**
+ * The start times of a recurring event in order, up to `rangeEnd` (wall
+ * time). `truncated` is set when the rule still repeats after MAX_PERIODS.
+ */
+function expandRule(
+	start: IcsDateTime,
+	rule: RecurrenceRule,
+	rangeStart: moment.Moment,
+	rangeEnd: moment.Moment
+): { starts: IcsDateTime[]; truncated: boolean } {
+	// An UNTIL date without a time includes that whole day
+	const until = rule.until
+		? (rule.until.allDay ? toLocal(rule.until).endOf("day") : toLocal(rule.until)).valueOf()
+		: null;
+	const starts: IcsDateTime[] = [];
+	const firstPeriod = getFirstPeriod(start.wall, rule, rangeStart);
+
+	for (let period = firstPeriod; period < firstPeriod + MAX_PERIODS; period++) {
+		for (const wall of getPeriodDates(start.wall, rule, period)) {
+			if (wall.isBefore(start.wall)) continue;
+			if (wall.isAfter(rangeEnd)) return { starts, truncated: false };
+
+			const occurrence = { ...start, wall };
+			if (until !== null && toLocal(occurrence).valueOf() > until) return { starts, truncated: false };
+			starts.push(occurrence);
+			if (rule.count !== null && starts.length >= rule.count) return { starts, truncated: false };
+		}
+	}
+	return { starts, truncated: true };
+}
+
+/**
+ * The period to start expanding from, so rules that began long before the
+ * range don't use up their periods before it. A COUNT is counted from the
+ * first occurrence, so those rules start at the beginning.
+ */
+function getFirstPeriod(start: moment.Moment, rule: RecurrenceRule, rangeStart: moment.Moment): number {
+	if (rule.count !== null || !rangeStart.isAfter(start)) return 0;
+	// One period early, as weeks, months and years begin before their dates
+	const periods = Math.floor(rangeStart.diff(start, PERIOD_UNITS[rule.freq]) / rule.interval);
+	return Math.max(0, periods - 1);
+}
+
+/**
+ * Candidate start times in the `period`th day, week, month or year of a rule,
+ * in order, at the time of day of the first occurrence
+ */
+function getPeriodDates(start: moment.Moment, rule: RecurrenceRule, period: number): moment.Moment[] {
+	const step = period * rule.interval;
+	const atStartTime = (day: moment.Moment) =>
+		day.clone().hour(start.hour()).minute(start.minute()).second(start.second());
+	const inMonths = (day: moment.Moment) =>
+		rule.byMonth.length === 0 || rule.byMonth.includes(day.month() + 1);
+
+	let dates: moment.Moment[];
+	switch (rule.freq) {
+		case "DAILY": {
+			const day = start.clone().add(step, "days");
+			const weekdayMatches =
+				rule.byDay.length === 0 || rule.byDay.some((byDay) => byDay.weekday === day.day());
+			dates = weekdayMatches && inMonths(day) ? [day] : [];
+			break;
+		}
+		case "WEEKLY": {
+			// Weeks start on Monday
+			const weekStart = start.clone().startOf("day").subtract((start.day() + 6) % 7, "days").add(step, "weeks");
+			const weekdays = rule.byDay.length > 0 ? rule.byDay.map((byDay) => byDay.weekday) : [start.day()];
+			dates = weekdays.map((weekday) => atStartTime(weekStart.clone().add((weekday + 6) % 7, "days")));
+			break;
+		}
+		case "MONTHLY": {
+			const month = start.clone().startOf("month").add(step, "months");
+			dates = inMonths(month) ? getMonthDates(month, start, rule).map(atStartTime) : [];
+			break;
+		}
+		case "YEARLY": {
+			const year = start.clone().startOf("year").add(step, "years");
+			const months = rule.byMonth.length > 0 ? rule.byMonth : [start.month() + 1];
+			dates = months.flatMap((month) =>
+				getMonthDates(year.clone().month(month - 1), start, rule).map(atStartTime)
+			);
+			break;
+		}
+	}
+	return dates.sort((a, b) => a.valueOf() - b.valueOf());
+}
+
+/**
+ * Days of a month matching BYMONTHDAY or BYDAY, else the first occurrence's day
+ */
+function getMonthDates(month: moment.Moment, start: moment.Moment, rule: RecurrenceRule): moment.Moment[] {
+	const daysInMonth = month.daysInMonth();
+	const day = (date: number) => month.clone().date(date);
+
+	if (rule.byMonthDay.length > 0) {
+		return rule.byMonthDay
+			.map((date) => (date < 0 ? daysInMonth + date + 1 : date))
+			.filter((date) => date >= 1 && date <= daysInMonth)
+			.map(day);
+	}
+
+	if (rule.byDay.length > 0) {
+		const dates: moment.Moment[] = [];
+		for (const { weekday, ordinal } of rule.byDay) {
+			const matching: number[] = [];
+			for (let date = 1; date <= daysInMonth; date++) {
+				if (day(date).day() === weekday) matching.push(date);
+			}
+			const picked =
+				ordinal === null
+					? matching
+					: [ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal]];
+			for (const date of picked) {
+				if (date !== undefined) dates.push(day(date));
+			}
+		}
+		return dates;
+	}
+
+	return start.date() <= daysInMonth ? [day(start.date())] : [];
+}
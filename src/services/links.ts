@@ -0,0 +1,30 @@
+import { App } from "obsidian";
+import type { MeetingNote } from "../types";
+
+/** Characters that can't appear in a heading link */
+const HEADING_LINK_UNSAFE_REGEX = /[#|^:%[\]\\]/g;
+
+/**
+ * Link to a meeting's heading, or to the whole file for standalone meeting
+ * files, in the user's preferred link format. `sourcePath` is the note the
+ * link will be written into. Pass an alias to show it instead of the target.
+ */
+export function linkToMeeting(
+	app: App,
+	note: MeetingNote,
+	sourcePath: string,
+	alias?: string
+): string {
+	if (note.source === "meeting-file") {
+		return app.fileManager.generateMarkdownLink(note.file, sourcePath, undefined, alias);
+	}
+	const heading = note.heading.replace(HEADING_LINK_UNSAFE_REGEX, " ").replace(/\s+/g, " ").trim();
+	return app.fileManager.generateMarkdownLink(note.file, sourcePath, `#${heading}`, alias);
+}
+
+/**
+ * A meeting's title without inline tags, for link aliases and lists
+ */
+export function displayTitle(note: MeetingNote): string {
+	return note.title.replace(/#[\w/-]+/g, "").trim() || note.title;
+}
@@ -0,0 +1,209 @@
+import { App, moment, normalizePath, TFile } from "obsidian";
+import type { ReflectorSettings } from "../settings";
+import type { MeetingNote } from "../types";
+import { displayTitle, linkToMeeting } from "./links";
+import type { MeetingNoteParser } from "./meeting-note-parser";
+import type { MeetingSearch } from "./meeting-search";
+
+export type ExportFormat = "json" | "csv" | "markdown";
+
+export const EXPORT_EXTENSIONS: Record<ExportFormat, string> = {
+	json: "json",
+	csv: "csv",
+	markdown: "md",
+};
+
+/**
+ * Which meetings to export, and where to. Empty filters don't filter.
+ */
+export interface ExportOptions {
+	format: ExportFormat;
+	/** Inclusive YYYY-MM-DD bounds */
+	from: string;
+	to: string;
+	/** Meetings must have every one of these tags, with or without # */
+	tags: string[];
+	/** Vault path of the export file */
+	path: string;
+}
+
+/**
+ * A meeting as written to JSON and CSV
+ */
+interface ExportedMeeting {
+	date: string;
+	startTime: string | null;
+	endTime: string | null;
+	title: string;
+	heading: string;
+	tags: string[];
+	attendees: string[];
+	properties: Record<string, string>;
+	file: string;
+	/** 0-indexed line range of the meeting in its file, end exclusive */
+	lineStart: number;
+	lineEnd: number;
+	content: string;
+}
+
+/** Properties vary per meeting, so they are left out of the CSV */
+const CSV_COLUMNS: Exclude<keyof ExportedMeeting, "properties">[] = [
+	"date",
+	"startTime",
+	"endTime",
+	"title",
+	"heading",
+	"tags",
+	"attendees",
+	"file",
+	"lineStart",
+	"lineEnd",
+	"content",
+];
+
+/**
+ * Writes the meeting index to a JSON, CSV or Markdown file, leaving out
+ * meetings with the private tag
+ */
+export class MeetingExporter {
+	constructor(
+		private app: App,
+		private settings: ReflectorSettings,
+		private parser: MeetingNoteParser,
+		private search: MeetingSearch
+	) {}
+
+	/**
+	 * A default export path in the export folder, e.g. "Exports/meetings-2025-10-19.csv"
+	 */
+	getDefaultPath(format: ExportFormat): string {
+		const folder = this.settings.exportFolder.trim() || "/";
+		return normalizePath(`${folder}/meetings-${moment().format("YYYY-MM-DD")}.${EXPORT_EXTENSIONS[format]}`);
+	}
+
+	/**
+	 * Meetings matching the options, oldest first
+	 */
+	async getMeetings(options: ExportOptions): Promise<MeetingNote[]> {
+		const notes = (await this.parser.getAllMeetingNotes()).filter((note) => !this.isPrivate(note));
+		const tags = options.tags
+			.map((tag) => tag.trim())
+			.filter(Boolean)
+			.map((tag) => (tag.startsWith("#") ? tag : `#${tag}`));
+
+		return this.search
+			.search(notes, { text: tags.join(" "), from: options.from, to: options.to, hasOpenTodos: false })
+			.reverse();
+	}
+
+	/**
+	 * Write the export file, replacing an earlier export at the same path.
+	 * Returns the file and the number of meetings written.
+	 */
+	async export(options: ExportOptions): Promise<{ file: TFile; count: number }> {
+		const path = normalizePath(options.path);
+		const meetings = await this.getMeetings(options);
+		const content = this.render(meetings, options.format, path);
+
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			await this.app.vault.modify(existing, content);
+			return { file: existing, count: meetings.length };
+		}
+
+		const folder = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+		if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+		return { file: await this.app.vault.create(path, content), count: meetings.length };
+	}
+
+	/**
+	 * Serialize meetings. `sourcePath` is where the export will live, so the
+	 * digest's links are generated relative to it.
+	 */
+	render(meetings: MeetingNote[], format: ExportFormat, sourcePath: string): string {
+		switch (format) {
+			case "json":
+				return JSON.stringify(meetings.map((note) => this.toExported(note)), null, 2);
+			case "csv":
+				return this.renderCsv(meetings.map((note) => this.toExported(note)));
+			case "markdown":
+				return this.renderDigest(meetings, sourcePath);
+		}
+	}
+
+	private toExported(note: MeetingNote): ExportedMeeting {
+		return {
+			date: note.date,
+			startTime: note.startTime ?? null,
+			endTime: note.endTime ?? null,
+			title: note.title,
+			heading: note.heading,
+			tags: note.tags,
+			attendees: note.attendees,
+			properties: note.properties,
+			file: note.file.path,
+			lineStart: note.lineStart,
+			lineEnd: note.lineEnd,
+			content: note.content,
+		};
+	}
+
+	/**
+	 * One row per meeting. Lists are joined with "; " and fields quoted as
+	 * needed, with CRLF line endings for spreadsheet apps.
+	 */
+	private renderCsv(meetings: ExportedMeeting[]): string {
+		const quote = (value: string | string[] | number | null): string => {
+			const text = Array.isArray(value) ? value.join("; ") : value === null ? "" : String(value);
+			return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+		};
+
+		const rows = [CSV_COLUMNS.join(",")];
+		for (const meeting of meetings) {
+			rows.push(CSV_COLUMNS.map((column) => quote(meeting[column])).join(","));
+		}
+		return `${rows.join("\r\n")}\r\n`;
+	}
+
+	/**
+	 * Every meeting's content under its own heading, with a link to the
+	 * source. Content is quoted so its TODOs aren't picked up as tasks again,
+	 * and its tags are escaped so the digest doesn't add to tag counts.
+	 */
+	private renderDigest(meetings: MeetingNote[], sourcePath: string): string {
+		const sections = meetings.map((note) => {
+			const time = note.startTime
+				? ` ${note.endTime ? `${note.startTime}-${note.endTime}` : note.startTime}`
+				: "";
+			const meta = [linkToMeeting(this.app, note, sourcePath, "Source")];
+			if (note.tags.length > 0) meta.push(`Tags: ${note.tags.map((tag) => `\`${tag}\``).join(" ")}`);
+			if (note.attendees.length > 0) meta.push(`Attendees: ${note.attendees.join(", ")}`);
+
+			const quoted = note.content
+				.trim()
+				.split("\n")
+				.map((line) => line.replace(/(^|\s)#(?=[\w/-])/g, "$1\\#"))
+				.map((line) => (line ? `> ${line}` : ">"))
+				.join("\n");
+			return `## ${note.date}${time} ${displayTitle(note)}\n${meta.join(" · ")}\n\n${quoted}\n`;
+		});
+
+		const count = `${meetings.length} meeting${meetings.length === 1 ? "" : "s"}`;
+		return `# Meeting digest\n\n${count}, exported ${moment().format("YYYY-MM-DD")}\n\n${sections.join("\n")}`;
+	}
+
+	/**
+	 * Whether a meeting has the private tag or a tag nested below it
+	 */
+	private isPrivate(note: MeetingNote): boolean {
+		const privateTag = this.settings.privateTag.trim().toLowerCase();
+		if (!privateTag) return false;
+		const tag = privateTag.startsWith("#") ? privateTag : `#${privateTag}`;
+		return note.tags.some((t) => {
+			const lower = t.toLowerCase();
+			return lower === tag || lower.startsWith(`${tag}/`);
+		});
+	}
+}
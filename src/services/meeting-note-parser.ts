@@ -1,106 +1,416 @@
-import { App, TFile } from "obsidian";
-import type { MeetingNote } from "../types";
+import { App, TFile, moment } from "obsidian";
+import type { MeetingNote, PropertyFilter, RelatedMeetingNote } from "../types";
 import type { ReflectorSettings } from "../settings";
+import { DailyNoteLocator } from "./daily-notes";
+import { TagMatcher } from "./tag-matcher";
+import { Bm25Index, mergeFrequencies, termFrequencies, tokenize } from "./text-analysis";
 
-const DAILY_NOTE_REGEX = /^\d{4}-\d{2}-\d{2}\.md$/;
-const TAG_REGEX = /#[\w/-]+/g;
+/** Tags, skipping escaped hashes like \#123 */
+const TAG_REGEX = /(?<!\\)#[\w/-]+/g;
+const HEADING_REGEX = /^(#{1,6})\s+(.*)$/;
+/** Minimum content similarity (0-1) for a note to count as related */
+const MIN_SIMILARITY = 0.15;
+const CODE_FENCE_REGEX = /^(```|~~~)/;
+const LINK_REGEX = /\[\[([^\]|#]+)(?:#[^\]|]*)?(?:\|[^\]]+)?\]\]/g;
+const TIME_PATTERN = "(\\d{1,2})[:.h](\\d{2})\\s*([ap]\\.?m\\.?)?";
+const TIME_RANGE_HEADING_REGEX = new RegExp(
+	`^${TIME_PATTERN}(?:\\s*(?:[-–—]|to)\\s*${TIME_PATTERN})?\\s*(?:[-–—:|]\\s*)?(.*)$`,
+	"i"
+);
+const PROPERTY_LINE_REGEX = /^\s*(?:[-*+]\s+)?([\w-]+)::\s*(.*)$/;
+const INLINE_PROPERTY_REGEX = /[[(]([\w-]+)::\s*((?:\[\[[^\]]*\]\]|[^\])])*)[\])]/g;
+const ATTENDEE_LINE_REGEX =
+	/^\s*(?:[-*+]\s+)?(?:\*\*)?(?:attendees|participants|with)(?:\*\*)?\s*::?\s*(?:\*\*)?\s*(.+)$/i;
+/** Dates in meeting titles: 2025-10-14, 14/10, 14.10.2025 */
+const SERIES_DATE_REGEX = /\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}[/.]\d{1,2}(?:[/.]\d{2,4})?\b/g;
+
+/**
+ * Cached parse result for a single daily note, keyed by file path
+ */
+interface IndexEntry {
+	/** File modification time at the moment the entry was parsed */
+	mtime: number;
+	/** Meeting notes parsed from the file */
+	notes: MeetingNote[];
+}
+
+/**
+ * A Markdown heading found on a line
+ */
+export interface MarkdownHeading {
+	level: number;
+	/** Heading text without the #s */
+	text: string;
+}
 
 export class MeetingNoteParser {
+	/** In-memory meeting note index, keyed by file path */
+	private index = new Map<string, IndexEntry>();
+	/** Pending full index build, shared by concurrent callers */
+	private buildPromise: Promise<void> | null = null;
+	/** Whether the index has been fully built from the vault */
+	private indexReady = false;
+	/** Bumped on invalidate so stale builds and parses don't write to the index */
+	private generation = 0;
+	/** Bumped on every index change so derived models know to rebuild */
+	private indexVersion = 0;
+	private dailyNotes: DailyNoteLocator;
+	private tagMatcher: TagMatcher;
+	/** Content similarity model over all meeting notes, rebuilt when the index changes */
+	private similarityModel: Bm25Index<MeetingNote> | null = null;
+	private similarityModelVersion = -1;
+
 	constructor(
 		private app: App,
 		private settings: ReflectorSettings
-	) {}
+	) {
+		this.dailyNotes = new DailyNoteLocator(app, settings);
+		this.tagMatcher = new TagMatcher(settings);
+	}
+
+	/**
+	 * Drop the whole index so it is rebuilt on the next query.
+	 * Call this when settings that affect parsing change.
+	 */
+	invalidate(): void {
+		this.indexVersion++;
+		this.index.clear();
+		this.buildPromise = null;
+		this.indexReady = false;
+		this.generation++;
+	}
+
+	/**
+	 * Counter that changes whenever the index does, for caching derived data
+	 */
+	get version(): number {
+		return this.indexVersion;
+	}
+
+	/**
+	 * Re-index a single file after it was created or modified. Always
+	 * re-parses, since frontmatter may change without a new mtime reaching us.
+	 * Files that aren't and weren't meeting sources leave the version alone,
+	 * so typing in other notes doesn't rebuild models derived from the index.
+	 */
+	async updateFile(file: TFile): Promise<void> {
+		const wasIndexed = this.index.delete(file.path);
+		if (this.isMeetingSource(file)) {
+			// Bumps the version once the new entry is in place
+			await this.getMeetingNotesInFile(file);
+		} else if (wasIndexed) {
+			// No longer a meeting source, e.g. its meeting frontmatter was removed
+			this.indexVersion++;
+		}
+	}
+
+	/**
+	 * Remove a deleted file from the index
+	 */
+	removeFile(path: string): void {
+		this.indexVersion++;
+		this.index.delete(path);
+	}
+
+	/**
+	 * Move an index entry after a file was renamed
+	 */
+	async renameFile(file: TFile, oldPath: string): Promise<void> {
+		this.index.delete(oldPath);
+		await this.updateFile(file);
+	}
+
+	/**
+	 * Check whether a file is a daily note this parser indexes
+	 */
+	isDailyNote(file: TFile): boolean {
+		return this.dailyNotes.getDate(file) !== null;
+	}
+
+	/**
+	 * Check whether a file is a standalone meeting note, either because it
+	 * lives in the meeting notes folder or has `type: meeting` frontmatter
+	 */
+	isMeetingFile(file: TFile): boolean {
+		if (file.extension !== "md" || this.isDailyNote(file)) {
+			return false;
+		}
+
+		const folder = this.settings.meetingFilesFolder.trim().replace(/\/+$/, "");
+		if (folder && file.path.startsWith(`${folder}/`)) {
+			return true;
+		}
+
+		if (this.settings.detectMeetingFrontmatter) {
+			const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+			return String(frontmatter?.type ?? "").toLowerCase() === "meeting";
+		}
+
+		return false;
+	}
+
+	/**
+	 * Check whether a file contains meeting notes of either kind
+	 */
+	isMeetingSource(file: TFile): boolean {
+		return this.isDailyNote(file) || this.isMeetingFile(file);
+	}
 
 	/**
 	 * Get all daily note files from the configured folder
 	 */
 	getDailyNoteFiles(): TFile[] {
-		const folder = this.app.vault.getAbstractFileByPath(
-			this.settings.dailyNotesFolder
-		);
-		if (!folder || !("children" in folder)) {
-			return [];
+		return this.dailyNotes.getFiles();
+	}
+
+	/**
+	 * Get every file that contains meeting notes: daily notes and standalone meeting files
+	 */
+	getMeetingSourceFiles(): TFile[] {
+		return [
+			...this.getDailyNoteFiles(),
+			...this.app.vault.getMarkdownFiles().filter((file) => this.isMeetingFile(file)),
+		];
+	}
+
+	/**
+	 * Get the meeting notes of a single file, served from the index
+	 * unless the file changed since it was last parsed
+	 */
+	async getMeetingNotesInFile(file: TFile): Promise<MeetingNote[]> {
+		const entry = this.index.get(file.path);
+		if (entry && entry.mtime === file.stat.mtime) {
+			return entry.notes;
 		}
 
-		return (folder.children as TFile[]).filter(
-			(file) => file instanceof TFile && DAILY_NOTE_REGEX.test(file.name)
+		const generation = this.generation;
+		const notes = this.isDailyNote(file)
+			? await this.parseDailyNote(file)
+			: await this.parseMeetingFile(file);
+		// Parsed with the old settings; the rebuilt index parses it again
+		if (generation !== this.generation) return notes;
+		this.index.set(file.path, { mtime: file.stat.mtime, notes });
+		this.indexVersion++;
+		return notes;
+	}
+
+	/**
+	 * Parse a standalone meeting file into a single meeting note covering the
+	 * whole file, with date, tags and attendees taken from frontmatter
+	 */
+	private async parseMeetingFile(file: TFile): Promise<MeetingNote[]> {
+		const content = await this.app.vault.cachedRead(file);
+		const lines = content.split("\n");
+		const cache = this.app.metadataCache.getFileCache(file);
+		const frontmatter = (cache?.frontmatter ?? {}) as Record<string, unknown>;
+
+		// Body starts after the closing --- of the frontmatter
+		const bodyStart = cache?.frontmatterPosition ? cache.frontmatterPosition.end.line + 1 : 0;
+		const bodyLines = lines.slice(bodyStart);
+
+		const heading =
+			typeof frontmatter.title === "string" && frontmatter.title.trim()
+				? frontmatter.title.trim()
+				: file.basename;
+
+		const note = this.finalizeMeetingNote(
+			{ heading, lineStart: 0 },
+			bodyLines,
+			file,
+			this.getMeetingFileDate(file, frontmatter.date),
+			lines.length
+		);
+
+		const frontmatterTags = this.toStringList(frontmatter.tags).map((tag) =>
+			tag.startsWith("#") ? tag : `#${tag}`
 		);
+		const frontmatterAttendees = this.toStringList(frontmatter.attendees)
+			.map((name) => this.cleanAttendeeName(name))
+			.filter(Boolean);
+
+		// Remaining scalar frontmatter fields behave like inline properties
+		const properties: Record<string, string> = {};
+		for (const [key, value] of Object.entries(frontmatter)) {
+			if (["tags", "attendees", "position"].includes(key)) continue;
+			if (["string", "number", "boolean"].includes(typeof value)) {
+				properties[key.toLowerCase()] = String(value);
+			}
+		}
+
+		return [
+			{
+				...note,
+				source: "meeting-file",
+				tags: this.mergeUnique(frontmatterTags, note.tags),
+				attendees: this.mergeUnique(frontmatterAttendees, note.attendees),
+				properties: { ...properties, ...note.properties },
+			},
+		];
 	}
 
 	/**
-	 * Parse a single daily note file and extract all meeting notes
+	 * Date of a meeting file: frontmatter `date`, else a leading date in the
+	 * filename, else the file's creation date
 	 */
-	async parseDailyNote(file: TFile): Promise<MeetingNote[]> {
+	private getMeetingFileDate(file: TFile, value: unknown): string {
+		if (typeof value === "string" || value instanceof Date) {
+			const date = moment(value);
+			if (date.isValid()) return date.format("YYYY-MM-DD");
+		}
+
+		const fromName = file.basename.match(/^\d{4}-\d{2}-\d{2}/);
+		if (fromName) return fromName[0];
+
+		return moment(file.stat.ctime).format("YYYY-MM-DD");
+	}
+
+	/** Frontmatter lists may be YAML arrays or comma-separated strings */
+	private toStringList(value: unknown): string[] {
+		if (Array.isArray(value)) {
+			return value.map((item) => String(item).trim()).filter(Boolean);
+		}
+		if (typeof value === "string") {
+			return value.split(",").map((item) => item.trim()).filter(Boolean);
+		}
+		return [];
+	}
+
+	/** Merge two lists, dropping case-insensitive duplicates */
+	private mergeUnique(first: string[], second: string[]): string[] {
+		const seen = new Set<string>();
+		return [...first, ...second].filter((item) => {
+			const key = item.toLowerCase();
+			if (seen.has(key)) return false;
+			seen.add(key);
+			return true;
+		});
+	}
+
+	/**
+	 * Read and parse a single daily note file into its meeting notes
+	 */
+	private async parseDailyNote(file: TFile): Promise<MeetingNote[]> {
 		const content = await this.app.vault.cachedRead(file);
 		const lines = content.split("\n");
 		const meetingNotes: MeetingNote[] = [];
 
-		// Extract date from filename (YYYY-MM-DD.md -> YYYY-MM-DD)
-		const date = file.basename;
+		// Parse the date from the path using the configured filename format
+		const date = this.dailyNotes.getDate(file) ?? file.basename;
+
+		const headings = this.getHeadings(lines);
+		const meetingLevel = this.settings.meetingHeadingLevel;
 
-		// Find the meeting notes header (H2)
-		const headerLine = this.settings.meetingNotesHeader.trim();
-		let inNotesSection = false;
+		// Level of the meeting section we're in, or null outside any section
+		let sectionLevel: number | null = null;
 		let currentNote: Partial<MeetingNote> | null = null;
 		let currentContent: string[] = [];
 
+		const closeCurrentNote = (lineEnd: number) => {
+			if (currentNote?.heading) {
+				meetingNotes.push(
+					this.finalizeMeetingNote(currentNote, currentContent, file, date, lineEnd)
+				);
+			}
+			currentNote = null;
+			currentContent = [];
+		};
+
 		for (let i = 0; i < lines.length; i++) {
 			const line = lines[i] ?? "";
-			const trimmedLine = line.trim();
+			const heading = headings[i];
 
-			// Check for the Notes H2 header
-			if (trimmedLine === headerLine) {
-				inNotesSection = true;
+			if (!heading) {
+				if (currentNote) {
+					currentContent.push(line);
+				}
 				continue;
 			}
 
-			// Check if we've exited the Notes section (another H2)
-			if (inNotesSection && trimmedLine.startsWith("## ") && trimmedLine !== headerLine) {
-				// Save current note if exists
-				if (currentNote?.heading) {
-					meetingNotes.push(
-						this.finalizeMeetingNote(currentNote, currentContent, file, date, i)
-					);
-				}
-				inNotesSection = false;
-				currentNote = null;
-				currentContent = [];
+			const level = heading.level;
+
+			// Entering a meeting section
+			if (this.isSectionHeader(line)) {
+				closeCurrentNote(i);
+				sectionLevel = level;
 				continue;
 			}
 
-			if (!inNotesSection) continue;
+			if (sectionLevel === null) continue;
 
-			// Check for H3 header (new meeting note)
-			if (trimmedLine.startsWith("### ")) {
-				// Save previous note if exists
-				if (currentNote?.heading) {
-					meetingNotes.push(
-						this.finalizeMeetingNote(currentNote, currentContent, file, date, i)
-					);
-				}
+			// A heading at or above the section's level ends the section
+			if (level <= sectionLevel) {
+				closeCurrentNote(i);
+				sectionLevel = null;
+				continue;
+			}
 
-				// Start new note
+			if (level === meetingLevel) {
+				// New meeting note
+				closeCurrentNote(i);
 				currentNote = {
-					heading: trimmedLine.slice(4).trim(),
+					heading: heading.text,
 					lineStart: i,
 				};
-				currentContent = [];
+			} else if (level < meetingLevel) {
+				// A grouping heading between the section and its meetings
+				closeCurrentNote(i);
 			} else if (currentNote) {
-				// Add content to current note
+				// Sub-heading inside a meeting note
 				currentContent.push(line);
 			}
 		}
 
 		// Don't forget the last note
-		if (currentNote?.heading) {
-			meetingNotes.push(
-				this.finalizeMeetingNote(currentNote, currentContent, file, date, lines.length)
-			);
-		}
+		closeCurrentNote(lines.length);
 
 		return meetingNotes;
 	}
 
+	/**
+	 * The heading on each line, or null. Lines are trimmed, and lines inside
+	 * fenced code blocks are never headings.
+	 */
+	getHeadings(lines: string[]): (MarkdownHeading | null)[] {
+		let inCodeBlock = false;
+		return lines.map((line) => {
+			const trimmedLine = line.trim();
+			if (CODE_FENCE_REGEX.test(trimmedLine)) {
+				inCodeBlock = !inCodeBlock;
+			}
+			const match = inCodeBlock ? null : trimmedLine.match(HEADING_REGEX);
+			return match?.[1] ? { level: match[1].length, text: (match[2] ?? "").trim() } : null;
+		});
+	}
+
+	/**
+	 * Find the first meeting notes section of a daily note: from its header
+	 * to the next heading of the same or a higher level
+	 */
+	findMeetingSection(lines: string[]): { start: number; end: number } | null {
+		const headings = this.getHeadings(lines);
+		const start = headings.findIndex(
+			(heading, i) => heading !== null && this.isSectionHeader(lines[i] ?? "")
+		);
+		const headerLevel = headings[start]?.level;
+		if (headerLevel === undefined) return null;
+
+		for (let i = start + 1; i < lines.length; i++) {
+			const level = headings[i]?.level;
+			if (level !== undefined && level <= headerLevel) {
+				return { start, end: i };
+			}
+		}
+		return { start, end: lines.length };
+	}
+
+	private isSectionHeader(line: string): boolean {
+		const trimmedLine = line.trim();
+		return (
+			trimmedLine !== "" &&
+			this.settings.meetingNotesHeaders.some((header) => header.trim() === trimmedLine)
+		);
+	}
+
 	private finalizeMeetingNote(
 		partial: Partial<MeetingNote>,
 		contentLines: string[],
@@ -111,16 +421,185 @@ export class MeetingNoteParser {
 		const content = contentLines.join("\n");
 		const fullText = `${partial.heading}\n${content}`;
 		const tags = this.extractTags(fullText);
+		const attendees = this.extractAttendees(partial.heading!, contentLines, file);
+		const time = this.parseHeadingTime(partial.heading!);
 
 		return {
 			file,
+			source: "daily-note",
 			heading: partial.heading!,
+			title: time.title,
 			lineStart: partial.lineStart!,
 			lineEnd,
 			tags,
+			attendees,
+			properties: this.extractProperties(contentLines),
 			content,
 			date,
+			startTime: time.startTime,
+			endTime: time.endTime,
+			durationMinutes: time.durationMinutes,
+		};
+	}
+
+	/**
+	 * Split a leading time or time range off a heading, e.g.
+	 * "10:00–10:30 Design review" -> 10:00, 10:30, 30 minutes, "Design review"
+	 */
+	parseHeadingTime(
+		heading: string
+	): Pick<MeetingNote, "title" | "startTime" | "endTime" | "durationMinutes"> {
+		const match = heading.match(TIME_RANGE_HEADING_REGEX);
+		const startTime = match ? this.toClockTime(match[1], match[2], match[3]) : null;
+		if (!match || !startTime) {
+			return { title: heading };
+		}
+
+		const title = (match[7] ?? "").trim() || heading;
+		const endTime = this.toClockTime(match[4], match[5], match[6] ?? match[3]);
+		if (!endTime) {
+			return { title, startTime };
+		}
+
+		let durationMinutes = this.toMinutes(endTime) - this.toMinutes(startTime);
+		if (durationMinutes < 0) {
+			// Meeting runs past midnight
+			durationMinutes += 24 * 60;
+		}
+
+		return { title, startTime, endTime, durationMinutes };
+	}
+
+	/** Normalize hour, minute and optional am/pm to 24-hour "HH:mm" */
+	private toClockTime(
+		hourText: string | undefined,
+		minuteText: string | undefined,
+		meridiem: string | undefined
+	): string | undefined {
+		if (hourText === undefined || minuteText === undefined) return undefined;
+
+		let hour = parseInt(hourText, 10);
+		const minute = parseInt(minuteText, 10);
+		const suffix = meridiem?.toLowerCase().replace(/\./g, "");
+		if (suffix === "pm" && hour < 12) hour += 12;
+		if (suffix === "am" && hour === 12) hour = 0;
+
+		if (hour > 23 || minute > 59) return undefined;
+		return `${String(hour).padStart(2, "0")}:${String(minute).padStart(2, "0")}`;
+	}
+
+	private toMinutes(clockTime: string): number {
+		const [hour, minute] = clockTime.split(":").map((part) => parseInt(part, 10));
+		return (hour ?? 0) * 60 + (minute ?? 0);
+	}
+
+	/**
+	 * Collect Dataview-style `key:: value` fields, on their own line or
+	 * inline as `[key:: value]` / `(key:: value)`. Keys are lowercased.
+	 */
+	private extractProperties(contentLines: string[]): Record<string, string> {
+		const properties: Record<string, string> = {};
+		const add = (key: string, value: string) => {
+			const normalizedKey = key.toLowerCase();
+			const trimmedValue = value.trim();
+			const existing = properties[normalizedKey];
+			properties[normalizedKey] = existing ? `${existing}, ${trimmedValue}` : trimmedValue;
 		};
+
+		for (const line of contentLines) {
+			const lineMatch = line.match(PROPERTY_LINE_REGEX);
+			if (lineMatch?.[1] !== undefined) {
+				add(lineMatch[1], lineMatch[2] ?? "");
+				continue;
+			}
+			for (const inline of line.matchAll(INLINE_PROPERTY_REGEX)) {
+				if (inline[1] !== undefined) {
+					add(inline[1], inline[2] ?? "");
+				}
+			}
+		}
+
+		return properties;
+	}
+
+	/**
+	 * Check whether a meeting note's properties satisfy a filter.
+	 * Values match case-insensitively as substrings, so "Alpha" matches "[[Alpha]]".
+	 */
+	matchesPropertyFilter(note: MeetingNote, filter?: PropertyFilter): boolean {
+		if (!filter) return true;
+
+		return Object.entries(filter).every(([key, expected]) => {
+			const actual = note.properties[key.toLowerCase()];
+			if (actual === undefined) return false;
+			return actual.toLowerCase().includes(expected.toLowerCase());
+		});
+	}
+
+	/**
+	 * Collect meeting participants from `Attendees:` / `With:` lines, links in
+	 * the heading, and links into the people folder anywhere in the section
+	 */
+	private extractAttendees(heading: string, contentLines: string[], file: TFile): string[] {
+		const attendees: string[] = [];
+
+		for (const line of contentLines) {
+			const match = line.match(ATTENDEE_LINE_REGEX);
+			if (!match?.[1]) continue;
+
+			for (const part of match[1].split(/,|;|\s+and\s+|\s+&\s+/)) {
+				const name = this.cleanAttendeeName(part);
+				if (name) attendees.push(name);
+			}
+		}
+
+		for (const target of this.extractLinkTargets(heading)) {
+			attendees.push(this.linkTargetName(target));
+		}
+
+		const peopleFolder = this.settings.peopleFolder.trim().replace(/\/+$/, "");
+		if (peopleFolder) {
+			for (const target of this.extractLinkTargets(contentLines.join("\n"))) {
+				const dest = this.app.metadataCache.getFirstLinkpathDest(target, file.path);
+				if (dest?.path.startsWith(`${peopleFolder}/`)) {
+					attendees.push(dest.basename);
+				}
+			}
+		}
+
+		// De-duplicate case-insensitively, keeping the first spelling
+		const seen = new Set<string>();
+		return attendees.filter((name) => {
+			const key = name.toLowerCase();
+			if (seen.has(key)) return false;
+			seen.add(key);
+			return true;
+		});
+	}
+
+	private cleanAttendeeName(raw: string): string {
+		const trimmed = raw.trim();
+		const linkTarget = this.extractLinkTargets(trimmed)[0];
+		if (linkTarget) {
+			return this.linkTargetName(linkTarget);
+		}
+		return trimmed
+			.replace(TAG_REGEX, "")
+			.replace(/^@/, "")
+			.replace(/\*\*/g, "")
+			.replace(/\s+/g, " ")
+			.trim();
+	}
+
+	private extractLinkTargets(text: string): string[] {
+		return Array.from(text.matchAll(LINK_REGEX), (match) => match[1]?.trim() ?? "").filter(
+			(target) => target.length > 0
+		);
+	}
+
+	/** "People/Sam Smith" -> "Sam Smith" */
+	private linkTargetName(target: string): string {
+		return target.split("/").pop() ?? target;
 	}
 
 	private extractTags(text: string): string[] {
@@ -128,16 +607,37 @@ export class MeetingNoteParser {
 		return matches ? [...new Set(matches)] : [];
 	}
 
+	/**
+	 * Build the index from every daily note, once
+	 */
+	private async ensureIndex(): Promise<void> {
+		if (this.indexReady) return;
+
+		if (!this.buildPromise) {
+			const generation = this.generation;
+			this.buildPromise = (async () => {
+				for (const file of this.getMeetingSourceFiles()) {
+					if (generation !== this.generation) return;
+					await this.getMeetingNotesInFile(file);
+				}
+				if (generation === this.generation) {
+					this.indexReady = true;
+				}
+			})();
+		}
+
+		await this.buildPromise;
+	}
+
 	/**
 	 * Get all meeting notes from all daily notes
 	 */
 	async getAllMeetingNotes(): Promise<MeetingNote[]> {
-		const files = this.getDailyNoteFiles();
+		await this.ensureIndex();
 		const allNotes: MeetingNote[] = [];
 
-		for (const file of files) {
-			const notes = await this.parseDailyNote(file);
-			allNotes.push(...notes);
+		for (const entry of this.index.values()) {
+			allNotes.push(...entry.notes);
 		}
 
 		// Sort by date descending (most recent first)
@@ -147,9 +647,22 @@ export class MeetingNoteParser {
 	/**
 	 * Get all meeting notes that have no tags
 	 */
-	async getUntaggedMeetingNotes(): Promise<MeetingNote[]> {
+	async getUntaggedMeetingNotes(filter?: PropertyFilter): Promise<MeetingNote[]> {
 		const allNotes = await this.getAllMeetingNotes();
-		return allNotes.filter((note) => note.tags.length === 0);
+		const ignored = new Set(this.settings.ignoredUntaggedNotes);
+		return allNotes.filter(
+			(note) =>
+				note.tags.length === 0 &&
+				!ignored.has(this.getNoteKey(note)) &&
+				this.matchesPropertyFilter(note, filter)
+		);
+	}
+
+	/**
+	 * Stable identifier for a meeting note that survives line shifts
+	 */
+	getNoteKey(note: MeetingNote): string {
+		return `${note.file.path}#${note.heading}`;
 	}
 
 	/**
@@ -159,12 +672,12 @@ export class MeetingNoteParser {
 		file: TFile,
 		cursorLine: number
 	): Promise<MeetingNote | null> {
-		// Only process daily notes
-		if (!DAILY_NOTE_REGEX.test(file.name)) {
+		// Only process daily notes and meeting files
+		if (!this.isMeetingSource(file)) {
 			return null;
 		}
 
-		const notes = await this.parseDailyNote(file);
+		const notes = await this.getMeetingNotesInFile(file);
 
 		// Find the note that contains the cursor
 		for (const note of notes) {
@@ -177,34 +690,169 @@ export class MeetingNoteParser {
 	}
 
 	/**
-	 * Get meeting notes that share tags with the given note
+	 * Get other meeting notes the given person attended, most recent first
 	 */
-	async getRelatedMeetingNotes(note: MeetingNote): Promise<MeetingNote[]> {
-		if (note.tags.length === 0) {
-			return [];
-		}
+	async getMeetingNotesWithAttendee(
+		name: string,
+		exclude?: MeetingNote
+	): Promise<MeetingNote[]> {
+		const allNotes = await this.getAllMeetingNotes();
+		const key = name.toLowerCase();
 
+		return allNotes.filter((note) => {
+			if (
+				exclude &&
+				note.file.path === exclude.file.path &&
+				note.lineStart === exclude.lineStart
+			) {
+				return false;
+			}
+			return note.attendees.some((attendee) => attendee.toLowerCase() === key);
+		});
+	}
+
+	/**
+	 * Identify the recurring series a meeting belongs to. An explicit
+	 * `series::` property wins; otherwise the title is normalized so that
+	 * "Standup 2025-10-14", "standup #3" and "Standup" all match.
+	 * Returns null when nothing distinctive is left.
+	 */
+	getSeriesKey(note: MeetingNote): string | null {
+		const explicit = note.properties.series?.trim();
+		return this.normalizeSeriesName(explicit || note.title);
+	}
+
+	/**
+	 * Get the most recent meeting whose series matches a title, e.g. to
+	 * reuse its tags for a new occurrence
+	 */
+	async getLatestInSeries(title: string): Promise<MeetingNote | null> {
+		const key = this.normalizeSeriesName(this.parseHeadingTime(title).title);
+		if (!key) return null;
+
+		// Notes are sorted newest first
 		const allNotes = await this.getAllMeetingNotes();
-		const tagSet = new Set(note.tags);
+		return allNotes.find((note) => this.getSeriesKey(note) === key) ?? null;
+	}
 
-		return allNotes
-			.filter((other) => {
-				// Don't include the same note
-				if (
+	private normalizeSeriesName(name: string): string | null {
+		const key = name
+			.toLowerCase()
+			.replace(/\[\[(?:[^\]|]*\|)?([^\]]*)\]\]/g, "$1")
+			.replace(TAG_REGEX, " ")
+			.replace(SERIES_DATE_REGEX, " ")
+			.replace(/(?<![\d:])\d+(?![\d:])/g, " ")
+			.replace(/[^\p{L}\p{N}:\s]/gu, " ")
+			.replace(/\s+/g, " ")
+			.trim();
+		return key || null;
+	}
+
+	/**
+	 * Get the earlier occurrences of a meeting's series, most recent first
+	 */
+	async getSeriesHistory(note: MeetingNote): Promise<MeetingNote[]> {
+		const key = this.getSeriesKey(note);
+		if (!key) return [];
+
+		const allNotes = await this.getAllMeetingNotes();
+		return allNotes.filter((other) => {
+			if (other.file.path === note.file.path && other.lineStart === note.lineStart) {
+				return false;
+			}
+			// Earlier days, or earlier in the same daily note
+			const isEarlier =
+				other.date < note.date ||
+				(other.date === note.date &&
 					other.file.path === note.file.path &&
-					other.lineStart === note.lineStart
-				) {
-					return false;
-				}
-				// Check for shared tags
-				return other.tags.some((tag) => tagSet.has(tag));
-			})
-			.sort((a, b) => {
-				// Sort by number of shared tags (descending), then by date
-				const aShared = a.tags.filter((t) => tagSet.has(t)).length;
-				const bShared = b.tags.filter((t) => tagSet.has(t)).length;
-				if (bShared !== aShared) return bShared - aShared;
-				return b.date.localeCompare(a.date);
+					other.lineStart < note.lineStart);
+			return isEarlier && this.getSeriesKey(other) === key;
+		});
+	}
+
+	/**
+	 * Get meeting notes related to the given note. Shared tags (counting
+	 * aliases and parent/child tags as configured) are blended with content
+	 * similarity, which is the only signal when the note has no tags.
+	 */
+	async getRelatedMeetingNotes(
+		note: MeetingNote,
+		filter?: PropertyFilter
+	): Promise<RelatedMeetingNote[]> {
+		const allNotes = await this.getAllMeetingNotes();
+		const isSameNote = (other: MeetingNote) =>
+			other.file.path === note.file.path && other.lineStart === note.lineStart;
+
+		const similarities = this.getSimilarNotes(note, allNotes, isSameNote);
+		const similarityWeight = note.tags.length === 0 ? 1 : this.settings.contentSimilarityWeight;
+		const related: RelatedMeetingNote[] = [];
+
+		for (const other of allNotes) {
+			// Don't include the same note
+			if (isSameNote(other)) {
+				continue;
+			}
+			if (!this.matchesPropertyFilter(other, filter)) {
+				continue;
+			}
+
+			const tagMatches = this.tagMatcher.matchAll(note.tags, other.tags);
+			const similar = similarities.get(other);
+			const similarity = similar && similarityWeight > 0 ? similar.similarity : 0;
+			if (tagMatches.length === 0 && similarity === 0) {
+				continue;
+			}
+
+			related.push({
+				...other,
+				score: this.tagMatcher.score(tagMatches) + similarityWeight * similarity,
+				tagMatches,
+				similarity,
+				similarTerms: similarity > 0 ? (similar?.terms ?? []) : [],
 			});
+		}
+
+		// Sort by combined score (descending), then by date
+		return related.sort((a, b) => {
+			if (b.score !== a.score) return b.score - a.score;
+			return b.date.localeCompare(a.date);
+		});
+	}
+
+	/**
+	 * Rank other notes by BM25 similarity of heading and content, relative to
+	 * the note's similarity to itself. Weak matches below MIN_SIMILARITY are dropped.
+	 */
+	private getSimilarNotes(
+		note: MeetingNote,
+		allNotes: MeetingNote[],
+		isSameNote: (other: MeetingNote) => boolean
+	): Map<MeetingNote, { similarity: number; terms: string[] }> {
+		if (!this.similarityModel || this.similarityModelVersion !== this.indexVersion) {
+			this.similarityModel = new Bm25Index(
+				new Map(allNotes.map((other) => [other, this.getTermFrequencies(other)]))
+			);
+			this.similarityModelVersion = this.indexVersion;
+		}
+
+		// The note's score against itself is the most similar anything can be
+		const matches = this.similarityModel.search(this.getTermFrequencies(note));
+		const selfScore = matches.find((match) => isSameNote(match.key))?.score ?? matches[0]?.score ?? 0;
+		const result = new Map<MeetingNote, { similarity: number; terms: string[] }>();
+		for (const match of matches) {
+			if (isSameNote(match.key)) continue;
+			const similarity = selfScore > 0 ? Math.min(1, match.score / selfScore) : 0;
+			if (similarity < MIN_SIMILARITY) break;
+			result.set(match.key, { similarity, terms: match.topTerms });
+		}
+		return result;
+	}
+
+	/** Heading words count double, as in tag suggestions */
+	private getTermFrequencies(note: MeetingNote): Map<string, number> {
+		return mergeFrequencies(
+			termFrequencies(tokenize(note.heading), 2),
+			termFrequencies(tokenize(note.content))
+		);
 	}
 }
@@ -0,0 +1,109 @@
+import type { MeetingNote } from "../types";
+import type { TodoService } from "./todo-service";
+
+/**
+ * What to look for in the meeting index. Empty fields don't filter.
+ */
+export interface MeetingSearchQuery {
+	/** Free text, "#tag" to require a tag, "-#tag" to exclude one, "quoted phrases" */
+	text: string;
+	/** Inclusive YYYY-MM-DD bounds */
+	from: string;
+	to: string;
+	hasOpenTodos: boolean;
+}
+
+export const EMPTY_SEARCH_QUERY: MeetingSearchQuery = {
+	text: "",
+	from: "",
+	to: "",
+	hasOpenTodos: false,
+};
+
+/**
+ * The text of a query split into its parts, all lowercased
+ */
+interface ParsedSearchText {
+	words: string[];
+	includeTags: string[];
+	excludeTags: string[];
+}
+
+const TOKEN_REGEX = /"([^"]*)"|(\S+)/g;
+
+/**
+ * Filters meeting notes by tags, date range, text and open TODOs
+ */
+export class MeetingSearch {
+	constructor(private todoService: TodoService) {}
+
+	/**
+	 * Meetings matching every part of the query, newest first
+	 */
+	search(notes: MeetingNote[], query: MeetingSearchQuery): MeetingNote[] {
+		const { words, includeTags, excludeTags } = this.parseText(query.text);
+
+		return notes
+			.filter((note) => {
+				if (query.from && note.date < query.from) return false;
+				if (query.to && note.date > query.to) return false;
+
+				const tags = note.tags.map((tag) => tag.toLowerCase());
+				if (!includeTags.every((tag) => this.hasTag(tags, tag))) return false;
+				if (excludeTags.some((tag) => this.hasTag(tags, tag))) return false;
+
+				if (words.length > 0) {
+					const haystack = [note.title, note.content, ...note.attendees].join("\n").toLowerCase();
+					if (!words.every((word) => haystack.includes(word))) return false;
+				}
+
+				if (query.hasOpenTodos) {
+					const counts = this.todoService.countTasks(note.content);
+					if (counts.open + counts["in-progress"] === 0) return false;
+				}
+				return true;
+			})
+			.sort(
+				(a, b) =>
+					b.date.localeCompare(a.date) ||
+					(b.startTime ?? "").localeCompare(a.startTime ?? "") ||
+					a.lineStart - b.lineStart
+			);
+	}
+
+	/**
+	 * Whether a query filters anything at all
+	 */
+	isEmpty(query: MeetingSearchQuery): boolean {
+		return !query.text.trim() && !query.from && !query.to && !query.hasOpenTodos;
+	}
+
+	private parseText(text: string): ParsedSearchText {
+		const parsed: ParsedSearchText = { words: [], includeTags: [], excludeTags: [] };
+
+		for (const match of text.toLowerCase().matchAll(TOKEN_REGEX)) {
+			// A quoted phrase is matched as written, never as a tag
+			if (match[1] !== undefined) {
+				if (match[1].trim()) parsed.words.push(match[1].trim());
+				continue;
+			}
+
+			const token = match[2] ?? "";
+			if (token.startsWith("-#") && token.length > 2) {
+				parsed.excludeTags.push(token.slice(1));
+			} else if (token.startsWith("#") && token.length > 1) {
+				parsed.includeTags.push(token);
+			} else {
+				parsed.words.push(token);
+			}
+		}
+		return parsed;
+	}
+
+	/**
+	 * Tags match themselves and their nested tags, so #project finds #project/alpha
+	 */
+	private hasTag(tags: string[], tag: string): boolean {
+		return tags.some((t) => t === tag || t.startsWith(`${tag}/`));
+	}
+}
@@ -0,0 +1,195 @@
+import { App, TFile } from "obsidian";
+import { DEFAULT_SETTINGS, ReflectorSettings } from "../settings";
+import { DailyNoteLocator } from "./daily-notes";
+import type { MeetingNoteParser } from "./meeting-note-parser";
+
+const PLACEHOLDER_REGEX = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * What to fill in for a new meeting
+ */
+export interface NewMeeting {
+	/** YYYY-MM-DD */
+	date: string;
+	title: string;
+	/** "HH:mm" */
+	startTime?: string;
+	endTime?: string;
+	attendees: string[];
+	/** Tags with or without # */
+	tags: string[];
+	/** Extra text appended after the template, e.g. an event description */
+	description?: string;
+}
+
+/**
+ * Where a new meeting was written
+ */
+export interface WrittenMeeting {
+	file: TFile;
+	/** 0-indexed line of the new heading */
+	line: number;
+	/** Last line of the new meeting's body, where typing continues */
+	endLine: number;
+}
+
+/**
+ * Creates meeting notes in daily notes: creates the daily note and the
+ * meeting notes section when needed, and keeps meetings in time order
+ */
+export class MeetingWriter {
+	private dailyNotes: DailyNoteLocator;
+
+	constructor(
+		private app: App,
+		private settings: ReflectorSettings,
+		private parser: MeetingNoteParser
+	) {
+		this.dailyNotes = new DailyNoteLocator(app, settings);
+	}
+
+	/**
+	 * Add a meeting to the daily note of its date
+	 */
+	async createMeeting(meeting: NewMeeting): Promise<WrittenMeeting> {
+		const file = await this.getOrCreateDailyNote(meeting.date);
+
+		let written = { line: 0, endLine: 0 };
+		await this.app.vault.process(file, (content) => {
+			const result = this.insertMeeting(content, meeting);
+			written = result;
+			return result.content;
+		});
+
+		return { file, ...written };
+	}
+
+	/**
+	 * The heading text of a meeting, e.g. "10:00-10:30 Design review"
+	 */
+	formatHeading(meeting: NewMeeting): string {
+		const time = meeting.startTime
+			? meeting.endTime
+				? `${meeting.startTime}-${meeting.endTime} `
+				: `${meeting.startTime} `
+			: "";
+		return `${time}${meeting.title.trim()}`;
+	}
+
+	/**
+	 * Insert a meeting into a daily note's text. It goes before the first
+	 * meeting that starts later, or at the end of the meeting notes section
+	 * when there are no times to go by. The section is added if missing.
+	 */
+	insertMeeting(
+		content: string,
+		meeting: NewMeeting
+	): { content: string; line: number; endLine: number } {
+		const lines = content.split("\n");
+		const level = this.settings.meetingHeadingLevel;
+
+		let section = this.parser.findMeetingSection(lines);
+		if (!section) {
+			while (lines.length > 0 && lines[lines.length - 1]?.trim() === "") {
+				lines.pop();
+			}
+			if (lines.length > 0) lines.push("");
+			lines.push(this.settings.meetingNotesHeaders[0] ?? "## Notes");
+			section = { start: lines.length - 1, end: lines.length };
+		}
+
+		// Before the first later meeting, else after the section's last content
+		let insertAt: number | null = null;
+		if (meeting.startTime) {
+			const headings = this.parser.getHeadings(lines);
+			for (let i = section.start + 1; i < section.end; i++) {
+				const heading = headings[i];
+				if (heading?.level !== level) continue;
+				const startTime = this.parser.parseHeadingTime(heading.text).startTime;
+				if (startTime && startTime > meeting.startTime) {
+					insertAt = i;
+					break;
+				}
+			}
+		}
+		if (insertAt === null) {
+			insertAt = section.end;
+			while (insertAt > section.start + 1 && lines[insertAt - 1]?.trim() === "") {
+				insertAt--;
+			}
+		}
+
+		const body = this.renderBody(meeting).split("\n");
+		const block = [`${"#".repeat(level)} ${this.formatHeading(meeting)}`, ...body];
+		// Keep a blank line between the new meeting and what surrounds it
+		if (insertAt > section.start + 1 && lines[insertAt - 1]?.trim() !== "") {
+			block.unshift("");
+		}
+		if (insertAt < lines.length && lines[insertAt]?.trim() !== "") {
+			block.push("");
+		}
+
+		lines.splice(insertAt, 0, ...block);
+		const headingLine = insertAt + (block[0] === "" ? 1 : 0);
+		return { content: lines.join("\n"), line: headingLine, endLine: headingLine + body.length };
+	}
+
+	/**
+	 * Fill the meeting template. Lines whose placeholders are all empty are
+	 * dropped, so a meeting without attendees doesn't get "attendees:: ".
+	 */
+	renderBody(meeting: NewMeeting): string {
+		const tags = meeting.tags
+			.map((tag) => tag.trim())
+			.filter(Boolean)
+			.map((tag) => (tag.startsWith("#") ? tag : `#${tag}`));
+		const values: Record<string, string> = {
+			title: meeting.title.trim(),
+			date: meeting.date,
+			time: meeting.startTime
+				? meeting.endTime
+					? `${meeting.startTime}-${meeting.endTime}`
+					: meeting.startTime
+				: "",
+			attendees: meeting.attendees.map((name) => this.formatAttendee(name)).join(", "),
+			tags: tags.join(" "),
+		};
+
+		const template = this.settings.meetingTemplate || DEFAULT_SETTINGS.meetingTemplate;
+		const body = template
+			.split("\n")
+			.filter((line) => {
+				const placeholders = [...line.matchAll(PLACEHOLDER_REGEX)];
+				return placeholders.length === 0 || placeholders.some((match) => values[match[1] ?? ""]);
+			})
+			.map((line) => line.replace(PLACEHOLDER_REGEX, (match, key: string) => values[key] ?? match))
+			.join("\n");
+
+		return meeting.description ? `${body}\n${meeting.description}` : body;
+	}
+
+	/**
+	 * Link attendees to their person notes when a people folder is set
+	 */
+	private formatAttendee(name: string): string {
+		const trimmed = name.trim();
+		if (!this.settings.peopleFolder.trim() || trimmed.startsWith("[[")) {
+			return trimmed;
+		}
+		return `[[${trimmed}]]`;
+	}
+
+	private async getOrCreateDailyNote(date: string): Promise<TFile> {
+		const path = this.dailyNotes.getPathForDate(date);
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			return existing;
+		}
+
+		const folder = path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : "";
+		if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+		return this.app.vault.create(path, "");
+	}
+}
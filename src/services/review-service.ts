@@ -0,0 +1,221 @@
+import { App, moment, normalizePath, TFile } from "obsidian";
+import type { ReflectorSettings } from "../settings";
+import type { MeetingActionItem, MeetingNote } from "../types";
+import { displayTitle, linkToMeeting } from "./links";
+import type { MeetingNoteParser } from "./meeting-note-parser";
+import type { TodoService } from "./todo-service";
+
+export type ReviewPeriodKind = "week" | "month";
+
+/**
+ * The stretch of time a review covers, with inclusive YYYY-MM-DD bounds
+ */
+export interface ReviewPeriod {
+	kind: ReviewPeriodKind;
+	start: string;
+	end: string;
+	/** Short name of the period, e.g. "2025-W42" or "2025-10" */
+	label: string;
+	/** Note title, e.g. "Weekly review 2025-W42" */
+	title: string;
+}
+
+/**
+ * Meetings and action items that fall within a review period
+ */
+export interface ReviewData {
+	period: ReviewPeriod;
+	/** Meetings in the period, oldest first */
+	meetings: MeetingNote[];
+	/** Lowercased tag -> meetings with that tag, most used first */
+	meetingsByTag: Map<string, MeetingNote[]>;
+	untagged: MeetingNote[];
+	/** Open, in-progress and done action items first written in the period's meetings */
+	actionItemsOpened: number;
+	/** Of those, the ones marked done */
+	actionItemsCompleted: number;
+	/** Action items from the period that are still open */
+	openActionItems: MeetingActionItem[];
+}
+
+/** Used when no template note is configured */
+export const DEFAULT_REVIEW_TEMPLATE = `# {{title}}
+
+{{start}} to {{end}}
+
+## Summary
+- {{meetingCount}} meetings
+- Action items: {{actionItemCounts}}
+
+## Tags
+{{tagCounts}}
+
+## Meetings by tag
+{{meetingsByTag}}
+
+## Untagged meetings
+{{untagged}}
+
+## Still open
+{{openActionItems}}
+
+## Reflection
+
+`;
+
+/**
+ * Builds weekly and monthly review notes from the meeting index and the
+ * TODOs written in meetings
+ */
+export class ReviewService {
+	constructor(
+		private app: App,
+		private settings: ReflectorSettings,
+		private parser: MeetingNoteParser,
+		private todoService: TodoService
+	) {}
+
+	/**
+	 * The week or month `offset` periods before the current one
+	 */
+	getPeriod(kind: ReviewPeriodKind, offset = 0): ReviewPeriod {
+		const start = moment().subtract(offset, kind).startOf(kind);
+		const end = start.clone().endOf(kind);
+		const label = kind === "week" ? start.format("gggg-[W]ww") : start.format("YYYY-MM");
+		return {
+			kind,
+			start: start.format("YYYY-MM-DD"),
+			end: end.format("YYYY-MM-DD"),
+			label,
+			title: kind === "week" ? `Weekly review ${label}` : `Monthly review ${label}`,
+		};
+	}
+
+	/**
+	 * Collect the meetings and action items of a period
+	 */
+	async getReviewData(period: ReviewPeriod): Promise<ReviewData> {
+		const meetings = (await this.parser.getAllMeetingNotes())
+			.filter((note) => note.date >= period.start && note.date <= period.end)
+			.sort(
+				(a, b) =>
+					a.date.localeCompare(b.date) ||
+					(a.startTime ?? "99:99").localeCompare(b.startTime ?? "99:99")
+			);
+
+		const meetingsByTag = new Map<string, MeetingNote[]>();
+		const untagged: MeetingNote[] = [];
+		for (const note of meetings) {
+			if (note.tags.length === 0) {
+				untagged.push(note);
+			}
+			for (const tag of new Set(note.tags.map((t) => t.toLowerCase()))) {
+				const tagged = meetingsByTag.get(tag) ?? [];
+				tagged.push(note);
+				meetingsByTag.set(tag, tagged);
+			}
+		}
+
+		let actionItemsOpened = 0;
+		let actionItemsCompleted = 0;
+		for (const note of meetings) {
+			// Carried-forward copies belong to the earlier meeting they came
+			// from, so they count as neither opened nor completed here
+			const written = note.content
+				.split("\n")
+				.filter((line) => !this.todoService.isCarriedTodo(line))
+				.join("\n");
+			const counts = this.todoService.countTasks(written);
+			actionItemsOpened += counts.open + counts["in-progress"] + counts.done;
+			actionItemsCompleted += counts.done;
+		}
+
+		return {
+			period,
+			meetings,
+			meetingsByTag: new Map(
+				[...meetingsByTag].sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+			),
+			untagged,
+			actionItemsOpened,
+			actionItemsCompleted,
+			openActionItems: await this.todoService.getMeetingActionItems(meetings),
+		};
+	}
+
+	/**
+	 * Write the review note for a period into the review folder. An existing
+	 * review is left untouched, so reflections written into it are never lost.
+	 * Returns the note and whether it was newly created.
+	 */
+	async writeReview(period: ReviewPeriod): Promise<{ file: TFile; created: boolean }> {
+		const folder = normalizePath(this.settings.reviewFolder.trim() || "/");
+		const path = normalizePath(`${folder}/${period.title}.md`);
+
+		const existing = this.app.vault.getAbstractFileByPath(path);
+		if (existing instanceof TFile) {
+			return { file: existing, created: false };
+		}
+
+		const content = await this.renderReview(await this.getReviewData(period), path);
+		if (folder !== "/" && !this.app.vault.getAbstractFileByPath(folder)) {
+			await this.app.vault.createFolder(folder);
+		}
+		return { file: await this.app.vault.create(path, content), created: true };
+	}
+
+	/**
+	 * Fill the review template. `sourcePath` is where the note will live,
+	 * so links are generated relative to it.
+	 */
+	async renderReview(data: ReviewData, sourcePath: string): Promise<string> {
+		const link = (note: MeetingNote) =>
+			linkToMeeting(this.app, note, sourcePath, displayTitle(note));
+		const meetingLine = (note: MeetingNote) => `- ${note.date} ${link(note)}`;
+		const list = (lines: string[], empty: string) => (lines.length > 0 ? lines.join("\n") : empty);
+
+		const values: Record<string, string> = {
+			title: data.period.title,
+			period: data.period.label,
+			start: data.period.start,
+			end: data.period.end,
+			meetingCount: String(data.meetings.length),
+			actionItemCounts: `${data.actionItemsOpened} opened, ${data.actionItemsCompleted} completed, ${data.openActionItems.length} still open`,
+			tagCounts: list(
+				[...data.meetingsByTag].map(([tag, notes]) => `- ${tag}: ${notes.length}`),
+				"No tagged meetings"
+			),
+			meetingsByTag: list(
+				[...data.meetingsByTag].map(
+					([tag, notes]) => `### ${tag.replace(/^#/, "")} (${notes.length})\n${notes.map(meetingLine).join("\n")}`
+				),
+				"No tagged meetings"
+			),
+			untagged: list(data.untagged.map(meetingLine), "None"),
+			meetings: list(data.meetings.map(meetingLine), "No meetings"),
+			openActionItems: list(
+				// Plain list items, so the review doesn't duplicate the TODOs themselves
+				data.openActionItems.map((item) => `- ${item.description} (${link(item.meeting)})`),
+				"None"
+			),
+		};
+
+		const template = await this.getTemplate();
+		return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+	}
+
+	/**
+	 * The configured template note's content, or the built-in template
+	 */
+	private async getTemplate(): Promise<string> {
+		const templatePath = this.settings.reviewTemplatePath.trim();
+		if (!templatePath) return DEFAULT_REVIEW_TEMPLATE;
+
+		const file = this.app.metadataCache.getFirstLinkpathDest(templatePath.replace(/\.md$/, ""), "");
+		if (!file) {
+			console.debug("[Reflector] Review template not found, using the default", { templatePath });
+			return DEFAULT_REVIEW_TEMPLATE;
+		}
+		return this.app.vault.cachedRead(file);
+	}
+}
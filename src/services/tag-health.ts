@@ -0,0 +1,257 @@
+import { moment } from "obsidian";
+import type { ReflectorSettings } from "../settings";
+import type { MeetingNoteParser } from "./meeting-note-parser";
+import type { TagService } from "./tag-service";
+
+/**
+ * Why tags look like the same tag, from the most to the least certain
+ * - case: they differ only in case (#Project, #project)
+ * - separator: they differ only in separators (#project-alpha, #project/alpha)
+ * - plural: one is the plural of the other (#meeting, #meetings)
+ * - spelling: they are one or two typos apart (#kubernetes, #kuberentes)
+ */
+export type TagDuplicateReason = "case" | "separator" | "plural" | "spelling";
+
+/**
+ * Tags that are probably meant to be one tag
+ */
+export interface TagDuplicateGroup {
+	/** Tags with their usage counts, most used first */
+	tags: [string, number][];
+	/** The most used tag, suggested as the one to merge into */
+	target: string;
+	reasons: TagDuplicateReason[];
+}
+
+/**
+ * A tag that used to come up in meetings but hasn't for a while
+ */
+export interface StaleTag {
+	tag: string;
+	/** Date of the last meeting with the tag (YYYY-MM-DD) */
+	lastUsed: string;
+	meetingCount: number;
+}
+
+export interface TagHealthReport {
+	/** Tags used once in the whole vault, with a tag to merge into if one looks alike */
+	singletons: { tag: string; target: string | null }[];
+	duplicates: TagDuplicateGroup[];
+	/** Oldest first */
+	stale: StaleTag[];
+}
+
+const REASON_ORDER: TagDuplicateReason[] = ["case", "separator", "plural", "spelling"];
+
+/** Shorter tags are too easily one typo apart, like #q1 and #q2 */
+const MIN_SPELLING_LENGTH = 5;
+
+/**
+ * Finds tags worth cleaning up: tags used only once, tags that are probably
+ * duplicates of each other, and tags meetings stopped using
+ */
+export class TagHealthService {
+	constructor(
+		private settings: ReflectorSettings,
+		private parser: MeetingNoteParser,
+		private tagService: TagService
+	) {}
+
+	async getReport(): Promise<TagHealthReport> {
+		const counts = this.tagService.getAllVaultTags();
+		const duplicates = this.findDuplicates(counts);
+
+		const targets = new Map<string, string>();
+		for (const group of duplicates) {
+			for (const [tag] of group.tags) {
+				if (tag !== group.target) targets.set(tag, group.target);
+			}
+		}
+		const singletons = [...counts]
+			.filter(([, count]) => count === 1)
+			.map(([tag]) => ({ tag, target: targets.get(tag) ?? null }))
+			.sort((a, b) => a.tag.localeCompare(b.tag));
+
+		return { singletons, duplicates, stale: await this.findStaleTags() };
+	}
+
+	/**
+	 * Group tags that look alike. Tags are linked pairwise and linked tags
+	 * grouped, so #Meeting, #meeting and #meetings end up in one group.
+	 */
+	findDuplicates(counts: Map<string, number>): TagDuplicateGroup[] {
+		const tags = [...counts.keys()];
+		const parent = new Map(tags.map((tag) => [tag, tag]));
+		const find = (tag: string): string => {
+			let root = tag;
+			while (parent.get(root) !== root) root = parent.get(root) ?? root;
+			parent.set(tag, root);
+			return root;
+		};
+		const linkReasons = new Map<string, Set<TagDuplicateReason>>();
+		const link = (a: string, b: string, reason: TagDuplicateReason) => {
+			const rootA = find(a);
+			const rootB = find(b);
+			const reasons = new Set([
+				...(linkReasons.get(rootA) ?? []),
+				...(linkReasons.get(rootB) ?? []),
+				reason,
+			]);
+			parent.set(rootB, rootA);
+			linkReasons.set(rootA, reasons);
+		};
+
+		// Tags sharing a normalized form are linked by the first form they share
+		const forms: [TagDuplicateReason, (tag: string) => string][] = [
+			["case", (tag) => tag.toLowerCase()],
+			["separator", (tag) => this.normalizeSeparators(tag)],
+			["plural", (tag) => this.singularize(this.normalizeSeparators(tag))],
+		];
+		for (const [reason, normalize] of forms) {
+			const byForm = new Map<string, string>();
+			for (const tag of tags) {
+				const form = normalize(tag);
+				const first = byForm.get(form);
+				if (first === undefined) {
+					byForm.set(form, tag);
+				} else if (find(first) !== find(tag)) {
+					link(first, tag, reason);
+				}
+			}
+		}
+
+		// Typos: compare every pair of distinct forms that are long enough
+		const spellings = [...new Set(tags.map((tag) => this.normalizeSeparators(tag)))].filter(
+			(form) => form.length >= MIN_SPELLING_LENGTH
+		);
+		const tagByForm = new Map(tags.map((tag) => [this.normalizeSeparators(tag), tag]));
+		for (let i = 0; i < spellings.length; i++) {
+			for (let j = i + 1; j < spellings.length; j++) {
+				const a = spellings[i] ?? "";
+				const b = spellings[j] ?? "";
+				if (!this.isLikelyTypo(a, b)) continue;
+				const tagA = tagByForm.get(a);
+				const tagB = tagByForm.get(b);
+				if (tagA && tagB && find(tagA) !== find(tagB)) {
+					link(tagA, tagB, "spelling");
+				}
+			}
+		}
+
+		const groups = new Map<string, string[]>();
+		for (const tag of tags) {
+			const root = find(tag);
+			groups.set(root, [...(groups.get(root) ?? []), tag]);
+		}
+
+		return [...groups]
+			.filter(([, members]) => members.length > 1)
+			.map(([root, members]) => {
+				const ranked: [string, number][] = members
+					.map((tag): [string, number] => [tag, counts.get(tag) ?? 0])
+					.sort(
+						(a, b) =>
+							b[1] - a[1] ||
+							// Prefer lowercase, then the shorter spelling
+							Number(a[0] !== a[0].toLowerCase()) - Number(b[0] !== b[0].toLowerCase()) ||
+							a[0].length - b[0].length ||
+							a[0].localeCompare(b[0])
+					);
+				const reasons = linkReasons.get(root) ?? new Set<TagDuplicateReason>();
+				return {
+					tags: ranked,
+					target: ranked[0]?.[0] ?? root,
+					reasons: REASON_ORDER.filter((reason) => reasons.has(reason)),
+				};
+			})
+			.sort((a, b) => this.groupUsage(b) - this.groupUsage(a));
+	}
+
+	/**
+	 * Tags whose last meeting is older than the configured number of months
+	 */
+	private async findStaleTags(): Promise<StaleTag[]> {
+		const cutoff = moment().subtract(this.settings.staleTagMonths, "months").format("YYYY-MM-DD");
+		const usage = new Map<string, StaleTag>();
+
+		for (const note of await this.parser.getAllMeetingNotes()) {
+			for (const tag of new Set(note.tags.map((t) => t.toLowerCase()))) {
+				const entry = usage.get(tag) ?? { tag, lastUsed: note.date, meetingCount: 0 };
+				entry.meetingCount++;
+				if (note.date > entry.lastUsed) entry.lastUsed = note.date;
+				usage.set(tag, entry);
+			}
+		}
+
+		return [...usage.values()]
+			.filter((entry) => entry.lastUsed < cutoff)
+			.sort((a, b) => a.lastUsed.localeCompare(b.lastUsed));
+	}
+
+	private groupUsage(group: TagDuplicateGroup): number {
+		return group.tags.reduce((sum, [, count]) => sum + count, 0);
+	}
+
+	/**
+	 * Lowercase, with "-", "_" and "/" all written as "-"
+	 */
+	private normalizeSeparators(tag: string): string {
+		return tag.toLowerCase().replace(/[-_/]+/g, "-");
+	}
+
+	/**
+	 * Singular of the last word: "meetings" -> "meeting", "priorities" -> "priority"
+	 */
+	private singularize(tag: string): string {
+		return tag.replace(/([a-z]{2,}?)(ies|ses|xes|ches|shes|s)$/, (match, stem: string, ending: string) => {
+			if (ending === "ies") return `${stem}y`;
+			if (ending === "s") return stem.endsWith("s") ? match : stem;
+			return `${stem}${ending.slice(0, -2)}`;
+		});
+	}
+
+	/**
+	 * One edit apart, or two for longer tags. Tags that only differ in their
+	 * digits (#2024-planning, #2025-planning) or in a short word (#team-a,
+	 * #team-b) are kept apart.
+	 */
+	private isLikelyTypo(a: string, b: string): boolean {
+		const maxDistance = Math.min(a.length, b.length) >= 10 ? 2 : 1;
+		if (Math.abs(a.length - b.length) > maxDistance) return false;
+		if (a.replace(/\d/g, "") === b.replace(/\d/g, "")) return false;
+
+		const wordsA = a.split("-");
+		const wordsB = b.split("-");
+		if (
+			wordsA.length === wordsB.length &&
+			wordsA.some((word, i) => word !== wordsB[i] && Math.min(word.length, wordsB[i]?.length ?? 0) < 4)
+		) {
+			return false;
+		}
+		return editDistance(a, b, maxDistance) <= maxDistance;
+	}
+}
+
+/**
+ * Levenshtein distance, giving up once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+	let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			const value = Math.min(
+				(previous[j] ?? 0) + 1,
+				(current[j - 1] ?? 0) + 1,
+				(previous[j - 1] ?? 0) + cost
+			);
+			current.push(value);
+			rowMin = Math.min(rowMin, value);
+		}
+		if (rowMin > max) return rowMin;
+		previous = current;
+	}
+	return previous[b.length] ?? 0;
+}
@@ -0,0 +1,128 @@
+import type { ReflectorSettings } from "../settings";
+import type { TagMatch } from "../types";
+
+/**
+ * Decides whether two tags are related: the same tag, aliases of each other,
+ * or parent and child in a nested tag hierarchy (#project and #project/alpha).
+ */
+export class TagMatcher {
+	private aliasSource: string | null = null;
+	/** Lowercased alias -> lowercased canonical tag */
+	private aliases = new Map<string, string>();
+
+	constructor(private settings: ReflectorSettings) {}
+
+	/**
+	 * Normalize a tag for comparison: lowercase, with aliases (including an
+	 * aliased parent path such as #k8s/prod) replaced by their canonical tag
+	 */
+	canonical(tag: string): string {
+		const lower = this.normalize(tag);
+		const aliases = this.getAliases();
+
+		const exact = aliases.get(lower);
+		if (exact) return exact;
+
+		// Longest aliased prefix wins
+		const parts = lower.split("/");
+		for (let i = parts.length - 1; i > 0; i--) {
+			const prefix = parts.slice(0, i).join("/");
+			const replacement = aliases.get(prefix);
+			if (replacement) {
+				return [replacement, ...parts.slice(i)].join("/");
+			}
+		}
+
+		return lower;
+	}
+
+	/**
+	 * Match a tag from the current note against a tag on another note
+	 */
+	match(sourceTag: string, otherTag: string): TagMatch | null {
+		const source = this.canonical(sourceTag);
+		const other = this.canonical(otherTag);
+
+		if (source === other) {
+			const isExact = this.normalize(sourceTag) === this.normalize(otherTag);
+			return {
+				sourceTag,
+				matchedTag: otherTag,
+				kind: isExact ? "exact" : "alias",
+				weight: 1,
+			};
+		}
+
+		const hierarchyWeight = this.settings.tagHierarchyWeight;
+		if (hierarchyWeight <= 0) return null;
+
+		if (other.startsWith(`${source}/`)) {
+			return { sourceTag, matchedTag: otherTag, kind: "child", weight: hierarchyWeight };
+		}
+		if (source.startsWith(`${other}/`)) {
+			return { sourceTag, matchedTag: otherTag, kind: "parent", weight: hierarchyWeight };
+		}
+
+		return null;
+	}
+
+	/**
+	 * Match every tag of another note against the current note's tags,
+	 * keeping the strongest match per other tag
+	 */
+	matchAll(sourceTags: string[], otherTags: string[]): TagMatch[] {
+		const matches: TagMatch[] = [];
+
+		for (const otherTag of new Set(otherTags)) {
+			let best: TagMatch | null = null;
+			for (const sourceTag of sourceTags) {
+				const match = this.match(sourceTag, otherTag);
+				if (match && (!best || match.weight > best.weight)) {
+					best = match;
+				}
+			}
+			if (best) matches.push(best);
+		}
+
+		return matches;
+	}
+
+	/**
+	 * Sum of match weights, used to rank related notes
+	 */
+	score(matches: TagMatch[]): number {
+		return matches.reduce((sum, match) => sum + match.weight, 0);
+	}
+
+	private normalize(tag: string): string {
+		const lower = tag.trim().toLowerCase();
+		return lower.startsWith("#") ? lower : `#${lower}`;
+	}
+
+	/**
+	 * Parse the alias table, one group per line: "#kubernetes = #k8s, #kube".
+	 * The tag before "=" is canonical. Re-parsed only when the setting changes.
+	 */
+	private getAliases(): Map<string, string> {
+		const source = this.settings.tagAliases;
+		if (source === this.aliasSource) {
+			return this.aliases;
+		}
+
+		this.aliases = new Map();
+		for (const line of source.split("\n")) {
+			const [canonicalPart, aliasPart] = line.split("=");
+			if (!canonicalPart?.trim() || !aliasPart) continue;
+
+			const canonical = this.normalize(canonicalPart);
+			for (const alias of aliasPart.split(",")) {
+				if (alias.trim()) {
+					this.aliases.set(this.normalize(alias), canonical);
+				}
+			}
+		}
+
+		this.aliasSource = source;
+		return this.aliases;
+	}
+}
@@ -0,0 +1,321 @@
+import { App, TFile, getAllTags } from "obsidian";
+import type { MeetingNoteParser } from "./meeting-note-parser";
+
+const CODE_FENCE_REGEX = /^\s*(```|~~~)/;
+/**
+ * Inline code spans, wikilinks (whose #heading parts look like tags), bare
+ * URLs and markdown link targets are never rewritten
+ */
+const PROTECTED_SPAN_REGEX = /`[^`]*`|\[\[[^\]]*\]\]|<https?:\/\/[^>]*>|https?:\/\/[^\s)>\]]+|\]\([^)]*\)/g;
+/** A #tag in body text, with the character before it. Escaped \#s aren't tags. */
+const INLINE_TAG_REGEX = /(^|[^\w&/#\\])#([\w/-]+)/g;
+const FRONTMATTER_TAGS_KEY_REGEX = /^(tags?\s*:\s*)(.*)$/i;
+const FRONTMATTER_LIST_ITEM_REGEX = /^(\s*-\s*)(["']?)([^"'\s]+)(["']?\s*)$/;
+
+/**
+ * A single line changed by a tag rename
+ */
+export interface TagRewriteLineChange {
+	/** 0-indexed line number */
+	line: number;
+	before: string;
+	after: string;
+}
+
+/**
+ * The pending rename for one file, computed up front so it can be previewed
+ */
+export interface TagRewriteFilePlan {
+	file: TFile;
+	/** File content the plan was computed from */
+	original: string;
+	/** File content after the rename */
+	updated: string;
+	changes: TagRewriteLineChange[];
+	/** Headings of the meeting notes touched by the change */
+	meetingHeadings: string[];
+	/** Number of tags replaced in the file */
+	replacements: number;
+}
+
+/**
+ * Outcome of applying a rename plan
+ */
+export interface TagRewriteResult {
+	filesChanged: number;
+	replacements: number;
+	/** Files that changed since the preview; nothing is written if any did */
+	conflicts: TFile[];
+}
+
+/**
+ * Renames and merges tags across the vault. Tags inside code blocks, inline
+ * code and URLs are left alone. Child tags move along with their parent
+ * (#proj/x becomes #project/x).
+ */
+export class TagRewriter {
+	constructor(
+		private app: App,
+		private parser: MeetingNoteParser
+	) {}
+
+	/**
+	 * Compute every file change needed to turn each of `fromTags` into `toTag`
+	 */
+	async plan(fromTags: string[], toTag: string): Promise<TagRewriteFilePlan[]> {
+		const from = fromTags.map((tag) => this.bare(tag).toLowerCase()).filter(Boolean);
+		const to = this.bare(toTag);
+		if (from.length === 0 || !to) return [];
+
+		const plans: TagRewriteFilePlan[] = [];
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			if (!this.fileMayContain(file, from)) continue;
+
+			const original = await this.app.vault.read(file);
+			const { text, changes, replacements } = this.rewriteText(original, from, to);
+			if (replacements === 0) continue;
+
+			plans.push({
+				file,
+				original,
+				updated: text,
+				changes,
+				meetingHeadings: await this.getMeetingHeadings(file, changes),
+				replacements,
+			});
+		}
+
+		return plans.sort((a, b) => a.file.path.localeCompare(b.file.path));
+	}
+
+	/**
+	 * Write a plan to the vault all-or-nothing: if any file changed since the
+	 * plan was made nothing is written, and a failed write rolls back the rest
+	 */
+	async apply(plans: TagRewriteFilePlan[]): Promise<TagRewriteResult> {
+		const conflicts: TFile[] = [];
+		for (const plan of plans) {
+			const current = await this.app.vault.read(plan.file);
+			if (current !== plan.original) {
+				conflicts.push(plan.file);
+			}
+		}
+		if (conflicts.length > 0) {
+			return { filesChanged: 0, replacements: 0, conflicts };
+		}
+
+		const written: TagRewriteFilePlan[] = [];
+		try {
+			for (const plan of plans) {
+				await this.app.vault.modify(plan.file, plan.updated);
+				written.push(plan);
+			}
+		} catch (error) {
+			for (const plan of written) {
+				await this.app.vault.modify(plan.file, plan.original);
+			}
+			throw error;
+		}
+
+		return {
+			filesChanged: written.length,
+			replacements: written.reduce((sum, plan) => sum + plan.replacements, 0),
+			conflicts: [],
+		};
+	}
+
+	/**
+	 * Rewrite tags in a file's text. `from` holds lowercased tags without #.
+	 */
+	rewriteText(
+		text: string,
+		from: string[],
+		to: string
+	): { text: string; changes: TagRewriteLineChange[]; replacements: number } {
+		const lines = text.split("\n");
+		const changes: TagRewriteLineChange[] = [];
+		let replacements = 0;
+
+		const frontmatterEnd = this.findFrontmatterEnd(lines);
+		let inTagsList = false;
+		let inCodeBlock = false;
+
+		for (let i = 0; i < lines.length; i++) {
+			const before = lines[i] ?? "";
+			let after = before;
+			let count = 0;
+
+			if (i > 0 && i < frontmatterEnd) {
+				// Frontmatter tags are written without #
+				const keyMatch = before.match(FRONTMATTER_TAGS_KEY_REGEX);
+				if (keyMatch) {
+					inTagsList = !keyMatch[2]?.trim();
+					[after, count] = this.rewriteBareTagList(before, keyMatch[1] ?? "", keyMatch[2] ?? "", from, to);
+				} else if (inTagsList) {
+					const itemMatch = before.match(FRONTMATTER_LIST_ITEM_REGEX);
+					if (itemMatch) {
+						const renamed = this.renameBare(itemMatch[3] ?? "", from, to);
+						if (renamed !== null) {
+							after = `${itemMatch[1]}${itemMatch[2]}${renamed}${itemMatch[4]}`;
+							count = 1;
+						}
+					} else {
+						inTagsList = false;
+					}
+				}
+			} else if (i >= frontmatterEnd) {
+				if (CODE_FENCE_REGEX.test(before)) {
+					inCodeBlock = !inCodeBlock;
+				} else if (!inCodeBlock) {
+					[after, count] = this.rewriteLine(before, from, to);
+				}
+			}
+
+			if (count > 0 && after !== before) {
+				lines[i] = after;
+				changes.push({ line: i, before, after });
+				replacements += count;
+			}
+		}
+
+		return { text: lines.join("\n"), changes, replacements };
+	}
+
+	/**
+	 * Replace #tags in a body line, skipping code spans, wikilinks and URLs.
+	 * A renamed tag that is already on the line is dropped instead of
+	 * repeated, e.g. merging #k8s into #kubernetes in "#k8s #kubernetes".
+	 */
+	private rewriteLine(line: string, from: string[], to: string): [string, number] {
+		let count = 0;
+		let dropped = false;
+		let result = "";
+		let lastIndex = 0;
+
+		const seen = new Set<string>();
+		for (const match of line.replace(PROTECTED_SPAN_REGEX, " ").matchAll(INLINE_TAG_REGEX)) {
+			const tag = match[2] ?? "";
+			if (this.renameBare(tag, from, to) === null) seen.add(tag.toLowerCase());
+		}
+
+		const rewriteSegment = (segment: string) =>
+			segment.replace(INLINE_TAG_REGEX, (match, prefix: string, tag: string) => {
+				const renamed = this.renameBare(tag, from, to);
+				if (renamed === null) return match;
+				count++;
+				if (seen.has(renamed.toLowerCase())) {
+					dropped = true;
+					return /\s/.test(prefix) ? "" : prefix;
+				}
+				seen.add(renamed.toLowerCase());
+				return `${prefix}#${renamed}`;
+			});
+
+		for (const protectedSpan of line.matchAll(PROTECTED_SPAN_REGEX)) {
+			const start = protectedSpan.index ?? 0;
+			result += rewriteSegment(line.slice(lastIndex, start)) + protectedSpan[0];
+			lastIndex = start + protectedSpan[0].length;
+		}
+		result += rewriteSegment(line.slice(lastIndex));
+
+		// A dropped tag at either end of the line leaves a stray space
+		if (dropped) {
+			if (!/^\s/.test(line)) result = result.trimStart();
+			if (!/\s$/.test(line)) result = result.trimEnd();
+		}
+		return [result, count];
+	}
+
+	/**
+	 * Rewrite an inline frontmatter tag list: "tags: [a, b]" or "tags: a, b"
+	 */
+	private rewriteBareTagList(
+		line: string,
+		key: string,
+		value: string,
+		from: string[],
+		to: string
+	): [string, number] {
+		let count = 0;
+		const rewritten = value.replace(/[^\s,[\]"']+/g, (tag) => {
+			const renamed = this.renameBare(tag.replace(/^#/, ""), from, to);
+			if (renamed === null) return tag;
+			count++;
+			return tag.startsWith("#") ? `#${renamed}` : renamed;
+		});
+		return count > 0 ? [`${key}${this.dedupeTagList(rewritten)}`, count] : [line, 0];
+	}
+
+	/**
+	 * Drop repeated tags from an inline frontmatter list, which merging two
+	 * tags into one can produce. Lists without repeats are left as written.
+	 */
+	private dedupeTagList(value: string): string {
+		const bracketed = value.match(/^(\s*\[)(.*)(\]\s*)$/);
+		const list = bracketed?.[2] ?? value;
+		const separator = list.includes(",") ? "," : " ";
+		const items = list.split(separator);
+
+		const seen = new Set<string>();
+		const kept = items.filter((item) => {
+			const tag = item.trim().replace(/^["']|["']$/g, "").replace(/^#/, "").toLowerCase();
+			if (!tag) return true;
+			if (seen.has(tag)) return false;
+			seen.add(tag);
+			return true;
+		});
+		if (kept.length === items.length) return value;
+
+		return bracketed ? `${bracketed[1]}${kept.join(separator)}${bracketed[3]}` : kept.join(separator);
+	}
+
+	/**
+	 * Rename a tag (without #) if it or its parent is being renamed.
+	 * Returns null when it doesn't match.
+	 */
+	private renameBare(tag: string, from: string[], to: string): string | null {
+		const lower = tag.toLowerCase();
+		for (const source of from) {
+			if (lower === source) return to;
+			if (lower.startsWith(`${source}/`)) return `${to}${tag.slice(source.length)}`;
+		}
+		return null;
+	}
+
+	/**
+	 * Skip reading files whose cached tags can't contain any of the tags
+	 */
+	private fileMayContain(file: TFile, from: string[]): boolean {
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache) return true;
+		const tags = getAllTags(cache) ?? [];
+		return tags.some((tag) => this.renameBare(this.bare(tag), from, "") !== null);
+	}
+
+	/**
+	 * Line after the closing --- of the frontmatter, or 0 if there is none
+	 */
+	private findFrontmatterEnd(lines: string[]): number {
+		if (lines[0]?.trim() !== "---") return 0;
+		for (let i = 1; i < lines.length; i++) {
+			if (lines[i]?.trim() === "---") return i + 1;
+		}
+		return 0;
+	}
+
+	private async getMeetingHeadings(file: TFile, changes: TagRewriteLineChange[]): Promise<string[]> {
+		if (!this.parser.isMeetingSource(file)) return [];
+
+		const notes = await this.parser.getMeetingNotesInFile(file);
+		const headings = notes
+			.filter((note) =>
+				changes.some((change) => change.line >= note.lineStart && change.line < note.lineEnd)
+			)
+			.map((note) => note.heading);
+		return [...new Set(headings)];
+	}
+
+	private bare(tag: string): string {
+		return tag.trim().replace(/^#/, "");
+	}
+}
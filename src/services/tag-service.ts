@@ -1,11 +1,43 @@
-import { App } from "obsidian";
+import { App, getAllTags } from "obsidian";
 import type { MeetingNote, TagSuggestion } from "../types";
+import type { MeetingNoteParser } from "./meeting-note-parser";
+import { Bm25Index, mergeFrequencies, termFrequencies, tokenize } from "./text-analysis";
+
+/** How much more a heading word counts than a body word */
+const HEADING_WEIGHT = 2;
+/** Score per matched word for tags that only match by name */
+const NAME_MATCH_WEIGHT = 0.5;
+/** Minimum meetings two tags must share before one suggests the other */
+const MIN_COOCCURRENCE = 2;
+/** Minimum share of a tag's meetings that also carry the suggested tag */
+const MIN_COOCCURRENCE_CONFIDENCE = 0.2;
+
+/**
+ * How often tags appear together on the same meeting note.
+ * Keys are lowercased tags.
+ */
+interface CooccurrenceModel {
+	/** Number of meetings carrying each tag */
+	tagCounts: Map<string, number>;
+	/** Number of meetings carrying both tags, per tag pair */
+	pairCounts: Map<string, Map<string, number>>;
+	/** Original spelling of each lowercased tag */
+	displayNames: Map<string, string>;
+}
 
 export class TagService {
-	constructor(private app: App) {}
+	private model: Bm25Index<string> | null = null;
+	private cooccurrence: CooccurrenceModel | null = null;
+	private modelVersion = -1;
+
+	constructor(
+		private app: App,
+		private parser: MeetingNoteParser
+	) {}
 
 	/**
-	 * Get all tags used in the vault with their usage counts
+	 * Get all tags used in the vault with their usage counts, counting
+	 * frontmatter tags as well as inline ones
 	 */
 	getAllVaultTags(): Map<string, number> {
 		const tagCounts = new Map<string, number>();
@@ -13,11 +45,9 @@ export class TagService {
 
 		for (const file of files) {
 			const cache = this.app.metadataCache.getFileCache(file);
-			if (cache?.tags) {
-				for (const tagCache of cache.tags) {
-					const tag = tagCache.tag;
-					tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
-				}
+			const tags = cache ? getAllTags(cache) ?? [] : [];
+			for (const tag of tags) {
+				tagCounts.set(tag, (tagCounts.get(tag) ?? 0) + 1);
 			}
 		}
 
@@ -33,111 +63,187 @@ export class TagService {
 	}
 
 	/**
-	 * Suggest tags for a meeting note based on its title and content
+	 * Suggest tags for a meeting note, combining content-based suggestions
+	 * with tags that often appear together with the note's current tags
+	 */
+	async suggestTags(note: MeetingNote): Promise<TagSuggestion[]> {
+		const contentSuggestions = await this.suggestTagsFromContent(note);
+		const cooccurrenceSuggestions = await this.suggestTagsFromCooccurrence(note);
+
+		// Content scores are unbounded; scale them to 0-1 so both signals weigh alike
+		const maxContentScore = Math.max(0, ...contentSuggestions.map((s) => s.score));
+		const merged = new Map<string, TagSuggestion>();
+		for (const suggestion of contentSuggestions) {
+			merged.set(suggestion.tag.toLowerCase(), {
+				...suggestion,
+				score: maxContentScore > 0 ? suggestion.score / maxContentScore : 0,
+			});
+		}
+
+		for (const suggestion of cooccurrenceSuggestions) {
+			const key = suggestion.tag.toLowerCase();
+			const existing = merged.get(key);
+			merged.set(
+				key,
+				existing
+					? {
+							tag: existing.tag,
+							score: existing.score + suggestion.score,
+							reason: `${suggestion.reason}; ${existing.reason}`,
+						}
+					: suggestion
+			);
+		}
+
+		// Sort by score descending
+		return Array.from(merged.values())
+			.sort((a, b) => b.score - a.score)
+			.slice(0, 10);
+	}
+
+	/**
+	 * Suggest tags that frequently appear together with the note's existing tags
+	 */
+	async suggestTagsFromCooccurrence(note: MeetingNote): Promise<TagSuggestion[]> {
+		const { tagCounts, pairCounts, displayNames } = (await this.getModels()).cooccurrence;
+		const existingTags = new Set(note.tags.map((t) => t.toLowerCase()));
+		const best = new Map<string, { confidence: number; count: number; source: string }>();
+
+		for (const source of existingTags) {
+			const sourceCount = tagCounts.get(source) ?? 0;
+			for (const [other, count] of pairCounts.get(source) ?? []) {
+				if (existingTags.has(other) || count < MIN_COOCCURRENCE) continue;
+
+				const confidence = count / sourceCount;
+				if (confidence < MIN_COOCCURRENCE_CONFIDENCE) continue;
+
+				const current = best.get(other);
+				if (!current || confidence > current.confidence) {
+					best.set(other, { confidence, count, source });
+				}
+			}
+		}
+
+		return Array.from(best, ([tag, { confidence, count, source }]) => ({
+			tag: displayNames.get(tag) ?? tag,
+			score: confidence,
+			reason: `Often used with ${displayNames.get(source) ?? source} (${count}×)`,
+		})).sort((a, b) => b.score - a.score);
+	}
+
+	/**
+	 * Suggest tags based on the note's title and content
 	 */
-	suggestTags(note: MeetingNote): TagSuggestion[] {
+	async suggestTagsFromContent(note: MeetingNote): Promise<TagSuggestion[]> {
+		const model = (await this.getModels()).relevance;
 		const allTags = this.getAllTagNames();
-		const suggestions: TagSuggestion[] = [];
 
-		// Tokenize the heading and content
-		const headingTokens = this.tokenize(note.heading);
-		const contentTokens = this.tokenize(note.content);
-		const allTokens = [...headingTokens, ...contentTokens];
+		// Heading words are a stronger signal than body text
+		const query = mergeFrequencies(
+			termFrequencies(tokenize(note.heading), HEADING_WEIGHT),
+			termFrequencies(tokenize(note.content))
+		);
 
 		// Exclude tags already on this note
 		const existingTags = new Set(note.tags.map((t) => t.toLowerCase()));
+		const isExisting = (tag: string) => existingTags.has(tag.toLowerCase());
+
+		const suggestions = new Map<string, TagSuggestion>();
 
+		// Corpus model: which words predict each tag in already-tagged meetings
+		for (const match of model.search(query, isExisting)) {
+			suggestions.set(match.key.toLowerCase(), {
+				tag: match.key,
+				score: match.score,
+				reason: `Matches: ${match.topTerms.slice(0, 3).join(", ")}`,
+			});
+		}
+
+		// Tags no meeting uses yet can still match by name, on whole words only
 		for (const tag of allTags) {
-			if (existingTags.has(tag.toLowerCase())) {
-				continue;
-			}
+			if (isExisting(tag) || suggestions.has(tag.toLowerCase())) continue;
 
-			const score = this.calculateTagScore(tag, headingTokens, contentTokens);
-			if (score > 0) {
-				suggestions.push({
+			const nameTerms = tokenize(tag.replace(/^#/, "").replace(/[/_-]/g, " "));
+			const matched = nameTerms.filter((term) => query.has(term));
+			if (nameTerms.length > 0 && matched.length === nameTerms.length) {
+				suggestions.set(tag.toLowerCase(), {
 					tag,
-					score,
-					reason: this.getMatchReason(tag, allTokens),
+					score: matched.reduce((sum, term) => sum + (query.get(term) ?? 0), 0) * NAME_MATCH_WEIGHT,
+					reason: `Matches: ${matched.slice(0, 3).join(", ")}`,
 				});
 			}
 		}
 
 		// Sort by score descending
-		return suggestions.sort((a, b) => b.score - a.score).slice(0, 10);
+		return Array.from(suggestions.values()).sort((a, b) => b.score - a.score);
 	}
 
-	private tokenize(text: string): string[] {
-		// Convert to lowercase, split on non-alphanumeric, filter empty
-		return text
-			.toLowerCase()
-			.split(/[^a-z0-9]+/)
-			.filter((t) => t.length > 2);
+	/**
+	 * Get the tag models, rebuilding them only when the meeting index changed
+	 */
+	private async getModels(): Promise<{
+		relevance: Bm25Index<string>;
+		cooccurrence: CooccurrenceModel;
+	}> {
+		const notes = await this.parser.getAllMeetingNotes();
+		if (!this.model || !this.cooccurrence || this.modelVersion !== this.parser.version) {
+			this.model = this.buildRelevanceModel(notes);
+			this.cooccurrence = this.buildCooccurrenceModel(notes);
+			this.modelVersion = this.parser.version;
+		}
+		return { relevance: this.model, cooccurrence: this.cooccurrence };
 	}
 
-	private calculateTagScore(
-		tag: string,
-		headingTokens: string[],
-		contentTokens: string[]
-	): number {
-		// Remove # prefix and convert to lowercase for matching
-		const tagName = tag.replace(/^#/, "").toLowerCase();
-		const tagParts = tagName.split(/[/-]/);
-
-		let score = 0;
-
-		// Check heading matches (higher weight)
-		for (const token of headingTokens) {
-			if (tagName.includes(token) || token.includes(tagName)) {
-				score += 10;
-			}
-			for (const part of tagParts) {
-				if (part === token) {
-					score += 15;
-				} else if (part.includes(token) || token.includes(part)) {
-					score += 5;
-				}
+	/**
+	 * Build the tag relevance model. Each tag is a BM25 document made of the
+	 * words of every meeting carrying it.
+	 */
+	private buildRelevanceModel(notes: MeetingNote[]): Bm25Index<string> {
+		const documents = new Map<string, Map<string, number>>();
+		for (const note of notes) {
+			const terms = mergeFrequencies(
+				termFrequencies(tokenize(note.heading), HEADING_WEIGHT),
+				termFrequencies(tokenize(note.content))
+			);
+			for (const tag of note.tags) {
+				const existing = documents.get(tag);
+				documents.set(tag, existing ? mergeFrequencies(existing, terms) : terms);
 			}
 		}
 
-		// Check content matches (lower weight)
-		for (const token of contentTokens) {
-			if (tagName.includes(token) || token.includes(tagName)) {
-				score += 3;
-			}
-			for (const part of tagParts) {
-				if (part === token) {
-					score += 5;
-				} else if (part.includes(token) || token.includes(part)) {
-					score += 1;
+		return new Bm25Index(documents);
+	}
+
+	/**
+	 * Count how often each pair of tags shares a meeting note
+	 */
+	private buildCooccurrenceModel(notes: MeetingNote[]): CooccurrenceModel {
+		const model: CooccurrenceModel = {
+			tagCounts: new Map(),
+			pairCounts: new Map(),
+			displayNames: new Map(),
+		};
+
+		for (const note of notes) {
+			const tags = [...new Set(note.tags.map((t) => t.toLowerCase()))];
+			for (const tag of note.tags) {
+				if (!model.displayNames.has(tag.toLowerCase())) {
+					model.displayNames.set(tag.toLowerCase(), tag);
 				}
 			}
-		}
 
-		return score;
-	}
-
-	private getMatchReason(tag: string, tokens: string[]): string {
-		const tagName = tag.replace(/^#/, "").toLowerCase();
-		const tagParts = tagName.split(/[/-]/);
-
-		const matchingTokens: string[] = [];
-		for (const token of tokens) {
-			if (tagName.includes(token) || token.includes(tagName)) {
-				matchingTokens.push(token);
-			} else {
-				for (const part of tagParts) {
-					if (part === token || part.includes(token) || token.includes(part)) {
-						matchingTokens.push(token);
-						break;
+			for (const tag of tags) {
+				model.tagCounts.set(tag, (model.tagCounts.get(tag) ?? 0) + 1);
+				const pairs = model.pairCounts.get(tag) ?? new Map<string, number>();
+				for (const other of tags) {
+					if (other !== tag) {
+						pairs.set(other, (pairs.get(other) ?? 0) + 1);
 					}
 				}
+				model.pairCounts.set(tag, pairs);
 			}
 		}
 
-		const unique = [...new Set(matchingTokens)].slice(0, 3);
-		if (unique.length === 0) {
-			return "Related";
-		}
-		return `Matches: ${unique.join(", ")}`;
+		return model;
 	}
 }
@@ -0,0 +1,92 @@
+import { App } from "obsidian";
+import type { MeetingNote } from "../types";
+
+const HEADING_REGEX = /^#{1,6}\s+(.*)$/;
+const PROPERTY_LINE_REGEX = /^\s*(?:[-*+]\s+)?[\w-]+::/;
+
+/**
+ * Writes tags into meeting notes directly in the file, without needing the
+ * note to be open in an editor
+ */
+export class TagWriter {
+	constructor(private app: App) {}
+
+	/**
+	 * Add a tag to a meeting note. Daily note sections get the tag on the line
+	 * below their heading; meeting files get it in their frontmatter.
+	 * Returns false if the meeting's heading can no longer be found.
+	 */
+	async addTag(note: MeetingNote, tag: string): Promise<boolean> {
+		const normalizedTag = tag.startsWith("#") ? tag : `#${tag}`;
+
+		if (note.source === "meeting-file") {
+			await this.addFrontmatterTag(note, normalizedTag);
+			return true;
+		}
+
+		let written = false;
+		await this.app.vault.process(note.file, (content) => {
+			const lines = content.split("\n");
+			const headingLine = this.findHeadingLine(lines, note);
+			if (headingLine === null) {
+				return content;
+			}
+
+			// Insert tag on the line below the heading, appending to any
+			// existing content on that line. A property line like
+			// "attendees:: Sam" gets a new line above it instead, so the tag
+			// doesn't become part of the property's value.
+			const insertLine = headingLine + 1;
+			const currentLineContent = lines[insertLine] ?? "";
+			if (PROPERTY_LINE_REGEX.test(currentLineContent)) {
+				lines.splice(insertLine, 0, normalizedTag);
+			} else {
+				lines[insertLine] =
+					currentLineContent.trim() === ""
+						? normalizedTag
+						: `${currentLineContent} ${normalizedTag}`;
+			}
+
+			written = true;
+			return lines.join("\n");
+		});
+
+		return written;
+	}
+
+	private async addFrontmatterTag(note: MeetingNote, tag: string): Promise<void> {
+		const bareTag = tag.replace(/^#/, "");
+		await this.app.fileManager.processFrontMatter(note.file, (frontmatter: { tags?: unknown }) => {
+			const existing = frontmatter.tags;
+			if (Array.isArray(existing)) {
+				existing.push(bareTag);
+			} else if (typeof existing === "string" && existing.trim()) {
+				frontmatter.tags = [...existing.split(",").map((t) => t.trim()), bareTag];
+			} else {
+				frontmatter.tags = [bareTag];
+			}
+		});
+	}
+
+	/**
+	 * Find the meeting's heading line. Usually it is still at lineStart; if the
+	 * file changed since parsing, use the closest heading with the same text.
+	 */
+	private findHeadingLine(lines: string[], note: MeetingNote): number | null {
+		const isNoteHeading = (line: string | undefined) =>
+			line?.trim().match(HEADING_REGEX)?.[1]?.trim() === note.heading;
+
+		if (isNoteHeading(lines[note.lineStart])) {
+			return note.lineStart;
+		}
+
+		let closest: number | null = null;
+		for (let i = 0; i < lines.length; i++) {
+			if (!isNoteHeading(lines[i])) continue;
+			if (closest === null || Math.abs(i - note.lineStart) < Math.abs(closest - note.lineStart)) {
+				closest = i;
+			}
+		}
+		return closest;
+	}
+}
@@ -0,0 +1,148 @@
+import { moment } from "obsidian";
+import type { TaskMetadata, TaskPriority } from "../types";
+
+const DATE = "(\\d{4}-\\d{2}-\\d{2})";
+
+/** Tasks plugin date signifiers */
+const DUE_EMOJI_REGEX = new RegExp(`📅\\uFE0F?\\s*${DATE}`);
+const SCHEDULED_EMOJI_REGEX = new RegExp(`⏳\\uFE0F?\\s*${DATE}`);
+const START_EMOJI_REGEX = new RegExp(`🛫\\uFE0F?\\s*${DATE}`);
+/** Recurrence runs until the next signifier or the end of the line */
+const RECURRENCE_EMOJI_REGEX = /🔁️?\s*([^📅⏳🛫✅➕⏫🔼🔽🔺⏬[]+)/u;
+
+const PRIORITY_EMOJI: [string, TaskPriority][] = [
+	["🔺", "highest"],
+	["⏫", "high"],
+	["🔼", "medium"],
+	["🔽", "low"],
+	["⏬", "lowest"],
+];
+
+/** Dataview inline fields: [due:: 2025-10-20] or (due:: 2025-10-20) */
+const INLINE_FIELD_REGEX = /[[(]([\w-]+)::\s*([^\])]*)[\])]/g;
+
+/** A Dataview due field, keeping its brackets so it can be updated in place */
+const DUE_FIELD_REGEX = /([[(]due::\s*)[^\])]*([\])])/i;
+
+/** Every signifier the Tasks plugin may add, stripped from the description */
+const SIGNIFIER_REGEX =
+	/(?:📅|⏳|🛫|✅|➕|❌)️?\s*\d{4}-\d{2}-\d{2}|🔁️?\s*[^📅⏳🛫✅➕⏫🔼🔽🔺⏬[]+|[🔺⏫🔼🔽⏬]️?/gu;
+
+/** Sort rank of each priority; tasks without one sit between medium and low */
+const PRIORITY_RANK: Record<TaskPriority, number> = {
+	highest: 0,
+	high: 1,
+	medium: 2,
+	none: 3,
+	low: 4,
+	lowest: 5,
+};
+
+/**
+ * Parse Tasks-plugin emoji and Dataview-style fields from a task's text
+ */
+export function parseTaskMetadata(text: string): TaskMetadata {
+	const metadata: TaskMetadata = {
+		description: text,
+		priority: "none",
+	};
+
+	metadata.dueDate = text.match(DUE_EMOJI_REGEX)?.[1];
+	metadata.scheduledDate = text.match(SCHEDULED_EMOJI_REGEX)?.[1];
+	metadata.startDate = text.match(START_EMOJI_REGEX)?.[1];
+	metadata.recurrence = text.match(RECURRENCE_EMOJI_REGEX)?.[1]?.trim() || undefined;
+
+	for (const [emoji, priority] of PRIORITY_EMOJI) {
+		if (text.includes(emoji)) {
+			metadata.priority = priority;
+			break;
+		}
+	}
+
+	for (const field of text.matchAll(INLINE_FIELD_REGEX)) {
+		const key = field[1]?.toLowerCase();
+		const value = field[2]?.trim() ?? "";
+		switch (key) {
+			case "due":
+				metadata.dueDate = toDate(value) ?? metadata.dueDate;
+				break;
+			case "scheduled":
+				metadata.scheduledDate = toDate(value) ?? metadata.scheduledDate;
+				break;
+			case "start":
+				metadata.startDate = toDate(value) ?? metadata.startDate;
+				break;
+			case "priority":
+				if (value.toLowerCase() in PRIORITY_RANK) {
+					metadata.priority = value.toLowerCase() as TaskPriority;
+				}
+				break;
+			case "repeat":
+			case "recurrence":
+				metadata.recurrence = value || metadata.recurrence;
+				break;
+		}
+	}
+
+	metadata.description = text
+		.replace(SIGNIFIER_REGEX, "")
+		.replace(INLINE_FIELD_REGEX, "")
+		.replace(/\s{2,}/g, " ")
+		.trim();
+
+	return metadata;
+}
+
+/**
+ * Whether a task is past its due date (today is not overdue)
+ */
+export function isOverdue(task: TaskMetadata, today = moment().format("YYYY-MM-DD")): boolean {
+	return task.dueDate !== undefined && task.dueDate < today;
+}
+
+/**
+ * Order tasks: overdue first, then by priority, then by due date
+ */
+export function compareTasks(a: TaskMetadata, b: TaskMetadata): number {
+	const today = moment().format("YYYY-MM-DD");
+	const aOverdue = isOverdue(a, today);
+	const bOverdue = isOverdue(b, today);
+	if (aOverdue !== bOverdue) return aOverdue ? -1 : 1;
+
+	const priorityDiff = PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+	if (priorityDiff !== 0) return priorityDiff;
+
+	// Tasks with a due date come before those without
+	if (a.dueDate !== b.dueDate) {
+		if (!a.dueDate) return 1;
+		if (!b.dueDate) return -1;
+		return a.dueDate.localeCompare(b.dueDate);
+	}
+	return 0;
+}
+
+/**
+ * Set or clear a task's due date in its text. An existing Dataview field or
+ * 📅 date is updated in place; otherwise a 📅 date is appended.
+ */
+export function withDueDate(text: string, dueDate: string | null): string {
+	if (dueDate === null) {
+		return text
+			.replace(DUE_FIELD_REGEX, "")
+			.replace(DUE_EMOJI_REGEX, "")
+			.replace(/\s{2,}/g, " ")
+			.trim();
+	}
+	if (DUE_FIELD_REGEX.test(text)) {
+		return text.replace(DUE_FIELD_REGEX, `$1${dueDate}$2`);
+	}
+	if (DUE_EMOJI_REGEX.test(text)) {
+		return text.replace(DUE_EMOJI_REGEX, `📅 ${dueDate}`);
+	}
+	return `${text.trimEnd()} 📅 ${dueDate}`;
+}
+
+function toDate(value: string): string | undefined {
+	const date = moment(value, ["YYYY-MM-DD", moment.ISO_8601], true);
+	return date.isValid() ? date.format("YYYY-MM-DD") : undefined;
+}
@@ -0,0 +1,149 @@
+import type { ReflectorSettings } from "../settings";
+import type { TaskStatus } from "../types";
+
+/** Statuses in display order */
+export const TASK_STATUSES: TaskStatus[] = ["open", "in-progress", "done", "cancelled", "forwarded"];
+
+const STATUS_LABELS: Record<TaskStatus, string> = {
+	open: "open",
+	"in-progress": "in progress",
+	done: "done",
+	cancelled: "cancelled",
+	forwarded: "forwarded",
+};
+
+/** A list item with a checkbox: "- [ ] text", "* [/] text" or "+ [x] text" */
+const CHECKBOX_LINE_REGEX = /^(\s*[-*+]\s+\[)(.?)(\]\s*)(.*)$/;
+
+/**
+ * A checkbox line split into its parts, so the status or text can be
+ * replaced while keeping the rest of the line as written
+ */
+export interface TaskLine {
+	/** Indent, list marker and opening bracket, e.g. "  - [" */
+	prefix: string;
+	/** Character between the brackets */
+	symbol: string;
+	/** Closing bracket and following whitespace */
+	separator: string;
+	text: string;
+	status: TaskStatus;
+}
+
+export type TaskStatusCounts = Record<TaskStatus, number>;
+
+/**
+ * Reads checkbox statuses using the status characters from the settings.
+ * A space (or nothing) between the brackets is always open; characters not
+ * assigned to any status are not treated as tasks.
+ */
+export class TaskStatusModel {
+	private symbolSource: string | null = null;
+	/** Status character -> status */
+	private statuses = new Map<string, TaskStatus>();
+
+	constructor(private settings: ReflectorSettings) {}
+
+	/**
+	 * Parse a checkbox line, or return null if the line isn't a task
+	 */
+	parseLine(line: string): TaskLine | null {
+		const match = line.match(CHECKBOX_LINE_REGEX);
+		if (!match) return null;
+
+		const symbol = match[2] ?? "";
+		const status = this.getStatus(symbol);
+		if (!status) return null;
+
+		return {
+			prefix: match[1] ?? "",
+			symbol,
+			separator: match[3] ?? "",
+			text: (match[4] ?? "").trim(),
+			status,
+		};
+	}
+
+	/**
+	 * The character to write for a status: the first one configured for it
+	 */
+	symbolFor(status: TaskStatus): string {
+		if (status === "open") return " ";
+		return this.settings.taskStatusSymbols[status].trim().charAt(0) || " ";
+	}
+
+	/**
+	 * A checkbox line with its status changed, or null if it isn't a task
+	 */
+	withStatus(line: string, status: TaskStatus): string | null {
+		const task = this.parseLine(line);
+		if (!task) return null;
+		const rest = line.slice(task.prefix.length + task.symbol.length);
+		return `${task.prefix}${this.symbolFor(status)}${rest}`;
+	}
+
+	/**
+	 * Count the tasks in a block of markdown by status
+	 */
+	count(content: string): TaskStatusCounts {
+		const counts: TaskStatusCounts = {
+			open: 0,
+			"in-progress": 0,
+			done: 0,
+			cancelled: 0,
+			forwarded: 0,
+		};
+		for (const line of content.split("\n")) {
+			const task = this.parseLine(line);
+			if (task?.text) counts[task.status]++;
+		}
+		return counts;
+	}
+
+	/**
+	 * Describe counts for display, e.g. "3 open, 1 in progress, 2 done".
+	 * Returns null when there are no tasks.
+	 */
+	formatCounts(counts: TaskStatusCounts): string | null {
+		const parts = TASK_STATUSES.filter((status) => counts[status] > 0).map(
+			(status) => `${counts[status]} ${STATUS_LABELS[status]}`
+		);
+		return parts.length > 0 ? parts.join(", ") : null;
+	}
+
+	private getStatus(symbol: string): TaskStatus | null {
+		if (symbol === "" || symbol === " ") return "open";
+		return this.getStatuses().get(symbol) ?? null;
+	}
+
+	/**
+	 * Build the character lookup. Re-built only when the setting changes.
+	 */
+	private getStatuses(): Map<string, TaskStatus> {
+		const symbols = this.settings.taskStatusSymbols;
+		const source = JSON.stringify(symbols);
+		if (source === this.symbolSource) {
+			return this.statuses;
+		}
+
+		this.statuses = new Map();
+		for (const status of TASK_STATUSES) {
+			if (status === "open") continue;
+			for (const symbol of symbols[status]) {
+				if (symbol.trim() && !this.statuses.has(symbol)) {
+					this.statuses.set(symbol, status);
+				}
+			}
+		}
+
+		this.symbolSource = source;
+		return this.statuses;
+	}
+}
+
+/**
+ * Whether a task is finished one way or another
+ */
+export function isClosedStatus(status: TaskStatus): boolean {
+	return status === "done" || status === "cancelled" || status === "forwarded";
+}
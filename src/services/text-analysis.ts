@@ -0,0 +1,154 @@
+/**
+ * Shared text processing for the relevance models: tokenizing meeting text
+ * and ranking documents against a query with BM25.
+ */
+
+const STOP_WORDS = new Set([
+	"about", "after", "again", "all", "also", "and", "any", "are", "around", "back",
+	"been", "before", "being", "but", "can", "could", "did", "does", "done", "for",
+	"from", "get", "got", "had", "has", "have", "her", "here", "him", "his", "how",
+	"into", "its", "just", "let", "like", "made", "make", "more", "most", "much",
+	"need", "needs", "new", "not", "now", "off", "one", "only", "our", "out", "over",
+	"per", "should", "some", "still", "such", "than", "that", "the", "their", "them",
+	"then", "there", "these", "they", "this", "those", "through", "too", "two",
+	"use", "used", "very", "via", "want", "was", "way", "we", "were", "what", "when",
+	"where", "which", "while", "who", "why", "will", "with", "would", "yes", "you",
+	"your", "todo", "meeting", "notes", "note",
+]);
+
+const HASHTAG_REGEX = /#[\w/-]+/g;
+const URL_REGEX = /https?:\/\/\S+/g;
+const FIELD_KEY_REGEX = /[\w-]+::/g;
+
+/**
+ * Split text into lowercase terms for relevance scoring. Hashtags, URLs and
+ * field keys are removed so a note's own labels don't leak into its content.
+ */
+export function tokenize(text: string): string[] {
+	return text
+		.replace(HASHTAG_REGEX, " ")
+		.replace(URL_REGEX, " ")
+		.replace(FIELD_KEY_REGEX, " ")
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter((token) => token.length > 2 && !STOP_WORDS.has(token) && !/^\d+$/.test(token))
+		.map(stem);
+}
+
+/** Very light stemming so "reviews" and "review" count as the same term */
+function stem(token: string): string {
+	if (token.length > 4 && token.endsWith("s") && !token.endsWith("ss")) {
+		return token.slice(0, -1);
+	}
+	return token;
+}
+
+/**
+ * Count how often each term occurs, optionally scaled by a weight
+ */
+export function termFrequencies(tokens: string[], weight = 1): Map<string, number> {
+	const frequencies = new Map<string, number>();
+	for (const token of tokens) {
+		frequencies.set(token, (frequencies.get(token) ?? 0) + weight);
+	}
+	return frequencies;
+}
+
+/**
+ * Merge term frequency maps by summing the counts
+ */
+export function mergeFrequencies(...maps: Map<string, number>[]): Map<string, number> {
+	const merged = new Map<string, number>();
+	for (const map of maps) {
+		for (const [term, count] of map) {
+			merged.set(term, (merged.get(term) ?? 0) + count);
+		}
+	}
+	return merged;
+}
+
+/**
+ * A document's BM25 score for a query, with the terms that contributed to it
+ */
+export interface Bm25Match<K> {
+	key: K;
+	score: number;
+	/** Terms sorted by how much they added to the score, highest first */
+	topTerms: string[];
+}
+
+/**
+ * Okapi BM25 over a fixed set of documents, each given as its term frequencies
+ */
+export class Bm25Index<K> {
+	private documentFrequency = new Map<string, number>();
+	private averageLength = 0;
+	private lengths = new Map<K, number>();
+
+	constructor(
+		private documents: Map<K, Map<string, number>>,
+		private k1 = 1.2,
+		private b = 0.75
+	) {
+		let totalLength = 0;
+		for (const [key, terms] of documents) {
+			let length = 0;
+			for (const [term, count] of terms) {
+				length += count;
+				this.documentFrequency.set(term, (this.documentFrequency.get(term) ?? 0) + 1);
+			}
+			this.lengths.set(key, length);
+			totalLength += length;
+		}
+		this.averageLength = documents.size > 0 ? totalLength / documents.size : 0;
+	}
+
+	get size(): number {
+		return this.documents.size;
+	}
+
+	/**
+	 * Inverse document frequency; terms found in most documents score near zero
+	 */
+	idf(term: string): number {
+		const frequency = this.documentFrequency.get(term) ?? 0;
+		const total = this.documents.size;
+		return Math.log(1 + (total - frequency + 0.5) / (frequency + 0.5));
+	}
+
+	/**
+	 * Score every document against a weighted query, dropping non-matches
+	 */
+	search(query: Map<string, number>, exclude?: (key: K) => boolean): Bm25Match<K>[] {
+		const matches: Bm25Match<K>[] = [];
+
+		for (const [key, terms] of this.documents) {
+			if (exclude?.(key)) continue;
+
+			const lengthNorm =
+				1 - this.b + this.b * ((this.lengths.get(key) ?? 0) / (this.averageLength || 1));
+			const contributions: [string, number][] = [];
+			let score = 0;
+
+			for (const [term, queryWeight] of query) {
+				const frequency = terms.get(term);
+				if (!frequency) continue;
+
+				const saturation = (frequency * (this.k1 + 1)) / (frequency + this.k1 * lengthNorm);
+				const contribution = queryWeight * this.idf(term) * saturation;
+				score += contribution;
+				contributions.push([term, contribution]);
+			}
+
+			if (score > 0) {
+				matches.push({
+					key,
+					score,
+					topTerms: contributions.sort((a, b) => b[1] - a[1]).map(([term]) => term),
+				});
+			}
+		}
+
+		return matches.sort((a, b) => b.score - a.score);
+	}
+}
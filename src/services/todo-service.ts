@@ -1,15 +1,37 @@
 import { App, TFile } from "obsidian";
-import type { MeetingNote, TodoItem, RelatedTodoItem } from "../types";
+import type {
+	MeetingActionItem,
+	MeetingNote,
+	TodoItem,
+	RelatedTodoItem,
+	TagMatch,
+	TaskStatus,
+} from "../types";
+import type { ReflectorSettings } from "../settings";
+import { linkToMeeting } from "./links";
+import { TagMatcher } from "./tag-matcher";
+import { compareTasks, parseTaskMetadata, withDueDate } from "./task-metadata";
+import { isClosedStatus, TaskLine, TaskStatusCounts, TaskStatusModel } from "./task-status";
 
-const TODO_REGEX = /^[\s]*-\s*\[\s*\]\s*(.+)$/;
 const TAG_REGEX = /#[\w/-]+/g;
 const LINK_REGEX = /\[\[([^\]|]+)(?:\|[^\]]+)?\]\]/g;
+/** The back-link formatCarriedTodo adds, as a wikilink or a Markdown link */
+const CARRIED_LINK_REGEX = /\((?:\[\[[^\]]+\]\]|\[[^\]]*\]\([^)]*\))\)$/;
 
 export class TodoService {
-	constructor(private app: App) {}
+	private tagMatcher: TagMatcher;
+	private statusModel: TaskStatusModel;
+
+	constructor(
+		private app: App,
+		private settings: ReflectorSettings
+	) {
+		this.tagMatcher = new TagMatcher(settings);
+		this.statusModel = new TaskStatusModel(settings);
+	}
 
 	/**
-	 * Get all incomplete TODO items from the vault
+	 * Get all open TODO items from the vault, plus in-progress ones if enabled
 	 */
 	async getAllTodos(): Promise<TodoItem[]> {
 		const files = this.app.vault.getMarkdownFiles();
@@ -17,14 +39,128 @@ export class TodoService {
 
 		for (const file of files) {
 			const fileTodos = await this.getTodosFromFile(file);
-			todos.push(...fileTodos);
+			todos.push(
+				...fileTodos.filter(
+					(todo) =>
+						todo.status === "open" ||
+						(todo.status === "in-progress" && this.settings.includeInProgressTodos)
+				)
+			);
 		}
 
 		return todos;
 	}
 
 	/**
-	 * Extract TODO items from a single file
+	 * Get the open and in-progress TODOs written inside the given meeting
+	 * notes, newest meeting first. Unlike related TODOs, this includes TODOs
+	 * in the same file as any meeting.
+	 */
+	async getMeetingActionItems(notes: MeetingNote[]): Promise<MeetingActionItem[]> {
+		const notesByFile = new Map<string, MeetingNote[]>();
+		for (const note of notes) {
+			const fileNotes = notesByFile.get(note.file.path) ?? [];
+			fileNotes.push(note);
+			notesByFile.set(note.file.path, fileNotes);
+		}
+
+		const items: MeetingActionItem[] = [];
+		for (const fileNotes of notesByFile.values()) {
+			const file = fileNotes[0]?.file;
+			if (!file) continue;
+
+			for (const todo of await this.getTodosFromFile(file)) {
+				if (isClosedStatus(todo.status)) continue;
+				const meeting = fileNotes.find(
+					(note) => todo.line > note.lineStart && todo.line < note.lineEnd
+				);
+				if (meeting) {
+					items.push({ ...todo, meeting });
+				}
+			}
+		}
+
+		// Within a day, keep the order the TODOs were written in
+		return items.sort(
+			(a, b) =>
+				b.meeting.date.localeCompare(a.meeting.date) ||
+				a.file.path.localeCompare(b.file.path) ||
+				a.line - b.line
+		);
+	}
+
+	/**
+	 * Open TODOs from an earlier meeting that aren't yet in the current one,
+	 * in the order they were written
+	 */
+	async getCarryForwardItems(
+		previous: MeetingNote,
+		current: MeetingNote
+	): Promise<MeetingActionItem[]> {
+		const existing: string[] = [];
+		for (const line of current.content.split("\n")) {
+			const task = this.statusModel.parseLine(line);
+			if (task) {
+				existing.push(parseTaskMetadata(task.text).description.toLowerCase());
+			}
+		}
+
+		// Skip TODOs already carried over, which read the same plus a back-link
+		const items = await this.getMeetingActionItems([previous]);
+		return items.filter((item) => {
+			const description = item.description.toLowerCase();
+			return !existing.some(
+				(other) => other === description || other.startsWith(`${description} (`)
+			);
+		});
+	}
+
+	/**
+	 * Format an earlier meeting's TODO for the current meeting, linking back
+	 * to where it came from
+	 */
+	formatCarriedTodo(item: MeetingActionItem, sourcePath: string): string {
+		const task = this.statusModel.parseLine(item.raw);
+		const indent = task?.prefix.match(/^\s*/)?.[0] ?? "";
+		const link = linkToMeeting(this.app, item.meeting, sourcePath);
+		// Keep trailing Tasks emoji and fields at the end of the line
+		const text = item.text.startsWith(item.description)
+			? `${item.description} (${link})${item.text.slice(item.description.length)}`
+			: `${item.text} (${link})`;
+		return `${indent}- [ ] ${text}`;
+	}
+
+	/**
+	 * Whether a task line is a copy carried forward from an earlier meeting
+	 */
+	isCarriedTodo(line: string): boolean {
+		const task = this.statusModel.parseLine(line);
+		return task !== null && CARRIED_LINK_REGEX.test(parseTaskMetadata(task.text).description.trim());
+	}
+
+	/**
+	 * A checkbox line with its status changed, or null if it isn't a task
+	 */
+	lineWithStatus(line: string, status: TaskStatus): string | null {
+		return this.statusModel.withStatus(line, status);
+	}
+
+	/**
+	 * Count the tasks in a block of markdown by status
+	 */
+	countTasks(content: string): TaskStatusCounts {
+		return this.statusModel.count(content);
+	}
+
+	/**
+	 * Describe task counts for display, e.g. "3 open, 1 in progress, 2 done"
+	 */
+	formatTaskCounts(counts: TaskStatusCounts): string | null {
+		return this.statusModel.formatCounts(counts);
+	}
+
+	/**
+	 * Extract TODO items of every status from a single file
 	 */
 	private async getTodosFromFile(file: TFile): Promise<TodoItem[]> {
 		const content = await this.app.vault.cachedRead(file);
@@ -45,14 +181,16 @@ export class TodoService {
 				}
 			}
 
-			// Check for incomplete TODO
-			const todoMatch = line.match(TODO_REGEX);
-			if (todoMatch?.[1]) {
+			const task = this.statusModel.parseLine(line);
+			if (task?.text) {
 				todos.push({
-					text: todoMatch[1].trim(),
+					...parseTaskMetadata(task.text),
+					text: task.text,
 					file,
 					heading: currentHeading,
 					line: i,
+					raw: line,
+					status: task.status,
 				});
 			}
 		}
@@ -118,8 +256,6 @@ export class TodoService {
 	async getTodosForMeetingNote(note: MeetingNote): Promise<RelatedTodoItem[]> {
 		const allTodos = await this.getAllTodos();
 		const relatedTodos: RelatedTodoItem[] = [];
-		const noteTagSet = new Set(note.tags.map((t) => t.toLowerCase()));
-		const noteTagsOriginal = new Map(note.tags.map((t) => [t.toLowerCase(), t]));
 
 		for (const todo of allTodos) {
 			// Skip TODOs from the same file as the meeting note
@@ -129,20 +265,13 @@ export class TodoService {
 			}
 
 			let relationReason = "";
-			const matchingTags: string[] = [];
+			let tagMatches: TagMatch[] = [];
 
-			// Check for shared tags
-			if (noteTagSet.size > 0) {
+			// Check for shared tags, including aliases and parent/child tags
+			if (note.tags.length > 0) {
 				const fileTags = await this.getFileTags(todo.file);
-				for (const tag of fileTags) {
-					if (noteTagSet.has(tag.toLowerCase())) {
-						const originalTag = noteTagsOriginal.get(tag.toLowerCase());
-						if (originalTag) {
-							matchingTags.push(originalTag);
-						}
-					}
-				}
-				if (matchingTags.length > 0) {
+				tagMatches = this.tagMatcher.matchAll(note.tags, fileTags);
+				if (tagMatches.length > 0) {
 					relationReason = "shared tag";
 				}
 			}
@@ -156,12 +285,109 @@ export class TodoService {
 				relatedTodos.push({
 					...todo,
 					relationReason,
-					matchingTags,
+					matchingTags: [...new Set(tagMatches.map((match) => match.sourceTag))],
+					tagMatches,
 				});
 			}
 		}
 
-		return relatedTodos;
+		// Overdue first, then by priority and due date
+		return relatedTodos.sort(compareTasks);
+	}
+
+	/**
+	 * Get open TODOs that mention each person by name
+	 */
+	async getTodosMentioningPeople(names: string[]): Promise<Map<string, TodoItem[]>> {
+		const result = new Map<string, TodoItem[]>(names.map((name) => [name, []]));
+		if (names.length === 0) {
+			return result;
+		}
+
+		// A whole-word match also covers [[Name]], [[People/Name|alias]] and @Name
+		const patterns = names.map((name) => {
+			const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+			return { name, regex: new RegExp(`\\b${escaped}\\b`, "i") };
+		});
+
+		const allTodos = await this.getAllTodos();
+		for (const todo of allTodos) {
+			for (const { name, regex } of patterns) {
+				if (regex.test(todo.text)) {
+					result.get(name)?.push(todo);
+				}
+			}
+		}
+
+		for (const todos of result.values()) {
+			todos.sort(compareTasks);
+		}
+		return result;
+	}
+
+	/**
+	 * Change a TODO's checkbox status in its source file.
+	 * Returns false if the line changed since the TODO was read.
+	 */
+	async setStatus(todo: TodoItem, status: TaskStatus): Promise<boolean> {
+		const written = await this.rewriteLine(
+			todo,
+			(line) => this.statusModel.withStatus(line, status) ?? line
+		);
+		if (written) {
+			todo.status = status;
+		}
+		return written;
+	}
+
+	/**
+	 * Set or clear a TODO's due date, keeping the date format it already uses
+	 */
+	async setDueDate(todo: TodoItem, dueDate: string | null): Promise<boolean> {
+		return this.updateText(todo, withDueDate(todo.text, dueDate));
+	}
+
+	/**
+	 * Replace a TODO's text (everything after the checkbox)
+	 */
+	async updateText(todo: TodoItem, text: string): Promise<boolean> {
+		const newText = text.trim();
+		if (!newText) return false;
+
+		const written = await this.rewriteLine(todo, (_line, task) =>
+			`${task.prefix}${task.symbol}${task.separator}${newText}`
+		);
+		if (written) {
+			Object.assign(todo, parseTaskMetadata(newText), { text: newText });
+		}
+		return written;
+	}
+
+	/**
+	 * Rewrite a TODO's line in place, but only if it still reads exactly as it
+	 * did when the TODO was parsed, so a stale line number never edits the
+	 * wrong line. Updates `todo.raw` on success.
+	 */
+	private async rewriteLine(
+		todo: TodoItem,
+		rewrite: (line: string, task: TaskLine) => string
+	): Promise<boolean> {
+		let written = false;
+		await this.app.vault.process(todo.file, (content) => {
+			const lines = content.split("\n");
+			const current = lines[todo.line];
+			const task = current !== undefined ? this.statusModel.parseLine(current) : null;
+			if (current !== todo.raw || !task) {
+				return content;
+			}
+
+			const updated = rewrite(current, task);
+			lines[todo.line] = updated;
+			todo.raw = updated;
+			written = true;
+			return lines.join("\n");
+		});
+		return written;
 	}
 
 	/**
@@ -1,26 +1,101 @@
-import { App, PluginSettingTab, Setting } from "obsidian";
+import { App, debounce, PluginSettingTab, Setting } from "obsidian";
 import type ReflectorPlugin from "./main";
+import type { TaskStatus } from "./types";
 
 export interface ReflectorSettings {
 	/** Folder where daily notes are stored (relative to vault root) */
 	dailyNotesFolder: string;
-	/** The H2 header under which meeting notes (H3) are found */
-	meetingNotesHeader: string;
+	/** Moment format of daily note paths below the folder, without .md */
+	dailyNoteFormat: string;
+	/** Also look for daily notes in subfolders of the daily notes folder */
+	includeSubfolders: boolean;
+	/** Take the folder and format from Periodic Notes / core Daily Notes */
+	useCoreDailyNotesSettings: boolean;
+	/** Headers (including #s) of the sections that contain meeting notes */
+	meetingNotesHeaders: string[];
+	/** Heading level (2-6) of individual meeting notes inside those sections */
+	meetingHeadingLevel: number;
+	/** Folder of standalone meeting files, one meeting per file ("" to disable) */
+	meetingFilesFolder: string;
+	/** Treat any note with `type: meeting` frontmatter as a meeting file */
+	detectMeetingFrontmatter: boolean;
+	/** Weight of parent/child tag matches relative to exact ones (0 disables) */
+	tagHierarchyWeight: number;
+	/** Weight of content similarity in related notes, relative to one shared tag */
+	contentSimilarityWeight: number;
+	/** Tag synonyms, one group per line: "#kubernetes = #k8s, #kube" */
+	tagAliases: string;
+	/** Untagged meeting notes marked as intentionally untagged ("path#heading") */
+	ignoredUntaggedNotes: string[];
+	/** Folder of person notes; links into it count as meeting attendees */
+	peopleFolder: string;
+	/** Checkbox characters for each task status; "[ ]" is always open */
+	taskStatusSymbols: Record<Exclude<TaskStatus, "open">, string>;
+	/** Also list in-progress tasks under Related TODOs and People */
+	includeInProgressTodos: boolean;
+	/** Body of new meetings; {{title}}, {{date}}, {{time}}, {{attendees}} and {{tags}} are filled in */
+	meetingTemplate: string;
+	/** Mark TODOs as forwarded ([>]) when they are carried to a later meeting */
+	markCarriedForwardTodos: boolean;
+	/** Folder that weekly and monthly review notes are written to */
+	reviewFolder: string;
+	/** Note used as the review template ("" for the built-in one) */
+	reviewTemplatePath: string;
+	/** Folder that meeting exports are written to */
+	exportFolder: string;
+	/** Meetings with this tag (or a tag nested below it) are never exported */
+	privateTag: string;
+	/** Tags not used in a meeting for this many months are reported as stale */
+	staleTagMonths: number;
 }
 
 export const DEFAULT_SETTINGS: ReflectorSettings = {
 	dailyNotesFolder: "_daily",
-	meetingNotesHeader: "## Notes",
+	dailyNoteFormat: "YYYY-MM-DD",
+	includeSubfolders: false,
+	useCoreDailyNotesSettings: false,
+	meetingNotesHeaders: ["## Notes"],
+	meetingHeadingLevel: 3,
+	meetingFilesFolder: "",
+	detectMeetingFrontmatter: true,
+	tagHierarchyWeight: 0.5,
+	contentSimilarityWeight: 0.5,
+	tagAliases: "",
+	ignoredUntaggedNotes: [],
+	peopleFolder: "",
+	taskStatusSymbols: {
+		"in-progress": "/",
+		done: "xX",
+		cancelled: "-",
+		forwarded: ">",
+	},
+	includeInProgressTodos: false,
+	meetingTemplate: "{{tags}}\nattendees:: {{attendees}}\n\n- ",
+	markCarriedForwardTodos: false,
+	reviewFolder: "Reviews",
+	reviewTemplatePath: "",
+	exportFolder: "Exports",
+	privateTag: "#private",
+	staleTagMonths: 6,
 };
 
 export class ReflectorSettingTab extends PluginSettingTab {
 	plugin: ReflectorPlugin;
 
+	/** Text fields that change parsing rebuild the index once typing stops */
+	private saveAndReindex = debounce(() => void this.plugin.saveSettings(), 1000, true);
+
 	constructor(app: App, plugin: ReflectorPlugin) {
 		super(app, plugin);
 		this.plugin = plugin;
 	}
 
+	hide(): void {
+		// Apply a change still waiting on the debounce when the settings close
+		this.saveAndReindex.run();
+		super.hide();
+	}
+
 	display(): void {
 		const { containerEl } = this;
 		containerEl.empty();
@@ -34,25 +109,313 @@ export class ReflectorSettingTab extends PluginSettingTab {
 				text
 					.setPlaceholder("_daily")
 					.setValue(this.plugin.settings.dailyNotesFolder)
-					.onChange(async (value) => {
+					.onChange((value) => {
 						this.plugin.settings.dailyNotesFolder = value;
+						this.saveAndReindex();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Daily note format")
+			.setDesc(
+				"Date format of the path below the folder, without the .md extension. Use / for subfolders."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.dailyNoteFormat)
+					.setValue(this.plugin.settings.dailyNoteFormat)
+					.onChange((value) => {
+						this.plugin.settings.dailyNoteFormat = value;
+						this.saveAndReindex();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Include subfolders")
+			.setDesc("Also find daily notes in subfolders of the daily notes folder")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.includeSubfolders)
+					.onChange(async (value) => {
+						this.plugin.settings.includeSubfolders = value;
 						await this.plugin.saveSettings();
 					})
 			);
 
 		new Setting(containerEl)
-			.setName("Meeting notes header")
+			.setName("Use daily notes plugin settings")
 			.setDesc(
-				"The H2 header under which meeting notes are found (include ##)"
+				"Read the folder and format from the periodic notes or core daily notes plugin when enabled"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.useCoreDailyNotesSettings)
+					.onChange(async (value) => {
+						this.plugin.settings.useCoreDailyNotesSettings = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Meeting notes headers")
+			.setDesc(
+				"Headers of the sections that contain meeting notes, one per line (include the #s)"
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.meetingNotesHeaders.join("\n"))
+					.setValue(this.plugin.settings.meetingNotesHeaders.join("\n"))
+					.onChange((value) => {
+						this.plugin.settings.meetingNotesHeaders = value
+							.split("\n")
+							.map((line) => line.trim())
+							.filter(Boolean);
+						this.saveAndReindex();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Meeting heading level")
+			.setDesc(
+				"Heading level of each meeting note. Must be deeper than the section headers above."
+			)
+			.addDropdown((dropdown) => {
+				for (let level = 2; level <= 6; level++) {
+					dropdown.addOption(String(level), `H${level} (${"#".repeat(level)})`);
+				}
+				dropdown
+					.setValue(String(this.plugin.settings.meetingHeadingLevel))
+					.onChange(async (value) => {
+						this.plugin.settings.meetingHeadingLevel = parseInt(value, 10);
+						await this.plugin.saveSettings();
+					});
+			});
+
+		new Setting(containerEl)
+			.setName("Meeting files folder")
+			.setDesc(
+				"Folder of standalone meeting notes with one meeting per file. Leave empty to disable."
 			)
 			.addText((text) =>
 				text
-					.setPlaceholder("## Notes")
-					.setValue(this.plugin.settings.meetingNotesHeader)
+					.setPlaceholder("Meetings")
+					.setValue(this.plugin.settings.meetingFilesFolder)
+					.onChange((value) => {
+						this.plugin.settings.meetingFilesFolder = value;
+						this.saveAndReindex();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Detect meeting frontmatter")
+			.setDesc("Treat any note with type: meeting in its frontmatter as a meeting note")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.detectMeetingFrontmatter)
 					.onChange(async (value) => {
-						this.plugin.settings.meetingNotesHeader = value;
+						this.plugin.settings.detectMeetingFrontmatter = value;
 						await this.plugin.saveSettings();
 					})
 			);
+
+		new Setting(containerEl)
+			.setName("People folder")
+			.setDesc(
+				"Links to notes in this folder count as meeting attendees. Leave empty to only use attendee lines and links in the heading."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("People")
+					.setValue(this.plugin.settings.peopleFolder)
+					.onChange((value) => {
+						this.plugin.settings.peopleFolder = value;
+						this.saveAndReindex();
+					})
+			);
+
+
+		new Setting(containerEl)
+			.setName("Nested tag weight")
+			.setDesc(
+				"How much a parent or child tag (#project vs #project/alpha) counts compared to the same tag. Set to 0 to only match exact tags."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 1, 0.1)
+					.setValue(this.plugin.settings.tagHierarchyWeight)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.tagHierarchyWeight = value;
+						await this.plugin.saveSettings(false);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Content similarity weight")
+			.setDesc(
+				"How much similar wording counts when ranking related notes, compared to one shared tag. Notes without tags always use similarity."
+			)
+			.addSlider((slider) =>
+				slider
+					.setLimits(0, 2, 0.1)
+					.setValue(this.plugin.settings.contentSimilarityWeight)
+					.setDynamicTooltip()
+					.onChange(async (value) => {
+						this.plugin.settings.contentSimilarityWeight = value;
+						await this.plugin.saveSettings(false);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Tag aliases")
+			.setDesc(
+				"Tags that mean the same thing, one group per line. The first tag is the main one, e.g. #kubernetes = #k8s, #kube"
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder("#kubernetes = #k8s, #kube")
+					.setValue(this.plugin.settings.tagAliases)
+					.onChange(async (value) => {
+						this.plugin.settings.tagAliases = value;
+						await this.plugin.saveSettings(false);
+					})
+			);
+
+		const statusNames: [Exclude<TaskStatus, "open">, string][] = [
+			["in-progress", "In-progress task characters"],
+			["done", "Done task characters"],
+			["cancelled", "Cancelled task characters"],
+			["forwarded", "Forwarded task characters"],
+		];
+		for (const [status, name] of statusNames) {
+			new Setting(containerEl)
+				.setName(name)
+				.setDesc(
+					status === "done"
+						? "Characters between the brackets that mark this status, e.g. xX for [x] and [X]. The first one is used when writing."
+						: "Characters between the brackets that mark this status. The first one is used when writing."
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder(DEFAULT_SETTINGS.taskStatusSymbols[status])
+						.setValue(this.plugin.settings.taskStatusSymbols[status])
+						.onChange(async (value) => {
+							this.plugin.settings.taskStatusSymbols = {
+								...this.plugin.settings.taskStatusSymbols,
+								[status]: value.replace(/\s/g, ""),
+							};
+							await this.plugin.saveSettings(false);
+						})
+				);
+		}
+
+		new Setting(containerEl)
+			.setName("Include in-progress tasks")
+			.setDesc("Also list in-progress tasks, not just open ones, under related tasks and people")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.includeInProgressTodos)
+					.onChange(async (value) => {
+						this.plugin.settings.includeInProgressTodos = value;
+						await this.plugin.saveSettings(false);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("New meeting template")
+			.setDesc(
+				"Body of meetings created with the new meeting command. Placeholders: {{title}}, {{date}}, {{time}}, {{attendees}}, {{tags}}. Lines whose placeholders are all empty are left out."
+			)
+			.addTextArea((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.meetingTemplate)
+					.setValue(this.plugin.settings.meetingTemplate)
+					.onChange(async (value) => {
+						this.plugin.settings.meetingTemplate = value;
+						await this.plugin.saveSettings(false);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Mark carried-forward tasks as forwarded")
+			.setDesc("When carrying tasks forward to a later meeting, mark the originals as forwarded")
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.markCarriedForwardTodos)
+					.onChange(async (value) => {
+						this.plugin.settings.markCarriedForwardTodos = value;
+						await this.plugin.saveSettings(false);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Review folder")
+			.setDesc("Folder that weekly and monthly review notes are written to")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.reviewFolder)
+					.setValue(this.plugin.settings.reviewFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.reviewFolder = value;
+						await this.plugin.saveSettings(false);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Review template")
+			.setDesc(
+				"Note to use as the review template. Placeholders: {{title}}, {{start}}, {{end}}, {{period}}, {{meetingCount}}, {{actionItemCounts}}, {{tagCounts}}, {{meetingsByTag}}, {{untagged}}, {{meetings}}, {{openActionItems}}. Leave empty for the built-in template."
+			)
+			.addText((text) =>
+				text
+					.setPlaceholder("Templates/review")
+					.setValue(this.plugin.settings.reviewTemplatePath)
+					.onChange(async (value) => {
+						this.plugin.settings.reviewTemplatePath = value;
+						await this.plugin.saveSettings(false);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Export folder")
+			.setDesc("Default folder for meeting exports")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.exportFolder)
+					.setValue(this.plugin.settings.exportFolder)
+					.onChange(async (value) => {
+						this.plugin.settings.exportFolder = value;
+						await this.plugin.saveSettings(false);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Private tag")
+			.setDesc("Meetings with this tag, or a tag nested below it, are left out of exports")
+			.addText((text) =>
+				text
+					.setPlaceholder(DEFAULT_SETTINGS.privateTag)
+					.setValue(this.plugin.settings.privateTag)
+					.onChange(async (value) => {
+						this.plugin.settings.privateTag = value;
+						await this.plugin.saveSettings(false);
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Stale tag age")
+			.setDesc("Months without a meeting before the tag health report lists a tag as stale")
+			.addText((text) =>
+				text
+					.setPlaceholder(String(DEFAULT_SETTINGS.staleTagMonths))
+					.setValue(String(this.plugin.settings.staleTagMonths))
+					.onChange(async (value) => {
+						const months = parseInt(value, 10);
+						if (months > 0) {
+							this.plugin.settings.staleTagMonths = months;
+							await this.plugin.saveSettings(false);
+						}
+					})
+			);
 	}
 }
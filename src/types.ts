@@ -1,30 +1,120 @@
 import { TFile } from "obsidian";
 
+/**
+ * Where a meeting note comes from: a section of a daily note, or a whole
+ * standalone meeting file
+ */
+export type MeetingNoteSource = "daily-note" | "meeting-file";
+
 /**
  * Represents a meeting note - an H3 section under the configured "Notes" header
- * within a daily note file.
+ * within a daily note file, or a standalone meeting file.
  */
 export interface MeetingNote {
-	/** The daily note file containing this meeting note */
+	/** The daily note or meeting file containing this meeting note */
 	file: TFile;
-	/** The H3 heading text (without the ### prefix) */
+	/** Whether this is a daily note section or a standalone meeting file */
+	source: MeetingNoteSource;
+	/** The H3 heading text (without the ### prefix), or a meeting file's title */
 	heading: string;
-	/** Line number where the H3 heading starts (0-indexed) */
+	/** The heading with any leading time or time range removed */
+	title: string;
+	/** Line number where the H3 heading starts (0-indexed, 0 for meeting files) */
 	lineStart: number;
 	/** Line number where the content ends (next H3 or section end) */
 	lineEnd: number;
 	/** Hashtags extracted from this section */
 	tags: string[];
+	/** Dataview-style `key:: value` fields in the section, keyed by lowercased key */
+	properties: Record<string, string>;
+	/** People in the meeting, from `Attendees:` / `With:` lines and [[Person]] links */
+	attendees: string[];
 	/** Raw content of the section (excluding the heading line) */
 	content: string;
-	/** Date extracted from the daily note filename (YYYY-MM-DD) */
+	/** Date parsed from the daily note path, or a meeting file's frontmatter (YYYY-MM-DD) */
 	date: string;
+	/** Start time from the heading (HH:mm, 24-hour), if present */
+	startTime?: string;
+	/** End time from the heading (HH:mm, 24-hour), if present */
+	endTime?: string;
+	/** Length of the meeting in minutes, when both times are present */
+	durationMinutes?: number;
+}
+
+/**
+ * Required meeting note properties: each key must be present and its value
+ * must contain the given text
+ */
+export type PropertyFilter = Record<string, string>;
+
+/**
+ * How a tag on another note relates to a tag on the current note
+ * - exact: the same tag
+ * - alias: a synonym from the alias table
+ * - parent: the other tag is a parent of ours (#project for #project/alpha)
+ * - child: the other tag is nested below ours (#project/alpha for #project)
+ */
+export type TagMatchKind = "exact" | "alias" | "parent" | "child";
+
+/**
+ * A match between a tag on the current note and a tag on another note
+ */
+export interface TagMatch {
+	/** Tag on the current note */
+	sourceTag: string;
+	/** Tag on the other note or file */
+	matchedTag: string;
+	kind: TagMatchKind;
+	/** Contribution to the relation score (1 for exact and alias matches) */
+	weight: number;
+}
+
+/**
+ * A meeting note related to the current one, with why it matched
+ */
+export interface RelatedMeetingNote extends MeetingNote {
+	/** Relevance score (higher = more related) */
+	score: number;
+	/** Tag matches that relate this note to the current one */
+	tagMatches: TagMatch[];
+	/** Content similarity to the current note, from 0 to 1 */
+	similarity: number;
+	/** Words that contributed most to the content similarity */
+	similarTerms: string[];
+}
+
+/**
+ * Checkbox status of a task: [ ] open, [/] in progress, [x] done,
+ * [-] cancelled, [>] forwarded (characters are configurable)
+ */
+export type TaskStatus = "open" | "in-progress" | "done" | "cancelled" | "forwarded";
+
+/**
+ * Task priority, from the Tasks plugin emoji or a [priority:: …] field
+ */
+export type TaskPriority = "highest" | "high" | "medium" | "none" | "low" | "lowest";
+
+/**
+ * Structured fields parsed from a task's text
+ */
+export interface TaskMetadata {
+	/** The task text with dates, priority and recurrence markers removed */
+	description: string;
+	/** Due date (YYYY-MM-DD), from 📅 or [due:: …] */
+	dueDate?: string;
+	/** Scheduled date (YYYY-MM-DD), from ⏳ or [scheduled:: …] */
+	scheduledDate?: string;
+	/** Start date (YYYY-MM-DD), from 🛫 or [start:: …] */
+	startDate?: string;
+	priority: TaskPriority;
+	/** Recurrence rule text, e.g. "every week", from 🔁 or [repeat:: …] */
+	recurrence?: string;
 }
 
 /**
  * Represents a TODO item found in the vault
  */
-export interface TodoItem {
+export interface TodoItem extends TaskMetadata {
 	/** The raw TODO text (without the checkbox) */
 	text: string;
 	/** The file containing this TODO */
@@ -33,6 +123,10 @@ export interface TodoItem {
 	heading: string | null;
 	/** Line number of the TODO */
 	line: number;
+	/** The full source line, used to check it is unchanged before writing */
+	raw: string;
+	/** Checkbox status */
+	status: TaskStatus;
 }
 
 /**
@@ -43,6 +137,16 @@ export interface RelatedTodoItem extends TodoItem {
 	relationReason: string;
 	/** Tags that caused the match (if any) */
 	matchingTags: string[];
+	/** How the file's tags matched the meeting note's tags */
+	tagMatches: TagMatch[];
+}
+
+/**
+ * An unfinished TODO written inside a meeting note
+ */
+export interface MeetingActionItem extends TodoItem {
+	/** The meeting the TODO was written in */
+	meeting: MeetingNote;
 }
 
 /**
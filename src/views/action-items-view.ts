@@ -0,0 +1,333 @@
+import { debounce, ItemView, moment, setIcon, ViewStateResult, WorkspaceLeaf } from "obsidian";
+import type ReflectorPlugin from "../main";
+import { isOverdue } from "../services/task-metadata";
+import type { MeetingActionItem } from "../types";
+import { navigateToNote, navigateToTodo } from "./navigation";
+import { renderTodoMetadata, TODO_STATUS_ICONS } from "./todo-badges";
+
+export const VIEW_TYPE_ACTION_ITEMS = "reflector-action-items";
+
+type ActionItemGrouping = "meeting" | "tag" | "age";
+
+interface ActionItemsViewState {
+	groupBy?: ActionItemGrouping;
+	filter?: string;
+}
+
+interface ActionItemGroup {
+	label: string;
+	items: MeetingActionItem[];
+	/** Meta text shown after the label, e.g. the meeting's date */
+	meta?: string;
+	/** Makes the group header clickable */
+	onClick?: () => void;
+}
+
+/** Age buckets, by days since the meeting */
+const AGE_BUCKETS: [number, string][] = [
+	[7, "This week"],
+	[30, "This month"],
+	[90, "Last 3 months"],
+	[Infinity, "Older"],
+];
+
+/** Groups rendered before "+ N more" */
+const MAX_GROUPS = 50;
+
+/**
+ * Every unfinished TODO written in any meeting note, grouped by meeting, tag
+ * or age, so nothing decided in a meeting falls through the cracks
+ */
+export class ActionItemsView extends ItemView {
+	plugin: ReflectorPlugin;
+
+	private groupBy: ActionItemGrouping = "meeting";
+	private filterText = "";
+	private items: MeetingActionItem[] = [];
+	private listEl: HTMLElement | null = null;
+
+	/** Vault changes arrive in bursts while typing; reload once they settle */
+	private requestRefresh = debounce(() => void this.refresh(), 1000, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: ReflectorPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_ACTION_ITEMS;
+	}
+
+	getDisplayText(): string {
+		return "Open action items";
+	}
+
+	getIcon(): string {
+		return "list-todo";
+	}
+
+	getState(): Record<string, unknown> {
+		const state: ActionItemsViewState = { groupBy: this.groupBy, filter: this.filterText };
+		return { ...super.getState(), ...state };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const viewState = state as ActionItemsViewState | null;
+		if (viewState?.groupBy) {
+			this.groupBy = viewState.groupBy;
+		}
+		if (typeof viewState?.filter === "string") {
+			this.filterText = viewState.filter;
+		}
+		await super.setState(state, result);
+		this.render();
+		await this.refresh();
+	}
+
+	async onOpen(): Promise<void> {
+		this.render();
+		await this.refresh();
+	}
+
+	/**
+	 * Called when the vault changes
+	 */
+	onVaultChange(): void {
+		this.requestRefresh();
+	}
+
+	/**
+	 * Reload the action items and redraw the list
+	 */
+	async refresh(): Promise<void> {
+		const notes = await this.plugin.parser.getAllMeetingNotes();
+		this.items = await this.plugin.todoService.getMeetingActionItems(notes);
+		this.renderList();
+	}
+
+	private render(): void {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass("reflector-container");
+
+		const toolbar = container.createDiv({ cls: "reflector-action-toolbar" });
+
+		const filterBar = toolbar.createDiv({ cls: "reflector-filter" });
+		setIcon(filterBar.createSpan({ cls: "reflector-filter-icon" }), "filter");
+		const input = filterBar.createEl("input", {
+			type: "text",
+			cls: "reflector-filter-input",
+			placeholder: "Filter by text, person or #tag",
+			value: this.filterText,
+		});
+		input.addEventListener("input", () => {
+			this.filterText = input.value;
+			this.renderList();
+		});
+		input.addEventListener("change", () => this.app.workspace.requestSaveLayout());
+
+		const select = toolbar.createEl("select", { cls: "dropdown reflector-action-group-by" });
+		for (const [value, label] of [
+			["meeting", "By meeting"],
+			["tag", "By tag"],
+			["age", "By age"],
+		] as const) {
+			select.createEl("option", { value, text: label });
+		}
+		select.value = this.groupBy;
+		select.addEventListener("change", () => {
+			this.groupBy = select.value as ActionItemGrouping;
+			this.app.workspace.requestSaveLayout();
+			this.renderList();
+		});
+
+		this.listEl = container.createDiv({ cls: "reflector-action-list" });
+	}
+
+	private renderList(): void {
+		const list = this.listEl;
+		if (!list) return;
+		list.empty();
+
+		const items = this.filterItems(this.items);
+		if (items.length === 0) {
+			list.createDiv({
+				text: this.items.length === 0 ? "No open action items" : "No action items match the filter",
+				cls: "reflector-empty",
+			});
+			return;
+		}
+
+		list.createDiv({
+			text: `${items.length} open action item${items.length === 1 ? "" : "s"}`,
+			cls: "reflector-card-meta",
+		});
+
+		const groups = this.groupItems(items);
+		for (const group of groups.slice(0, MAX_GROUPS)) {
+			const section = list.createDiv({ cls: "reflector-section" });
+			const header = section.createDiv({ cls: "reflector-header" });
+			header.createSpan({ text: group.label, cls: "reflector-header-title" });
+			if (group.meta) {
+				header.createSpan({ text: group.meta, cls: "reflector-card-meta" });
+			}
+			header.createSpan({ text: String(group.items.length), cls: "reflector-header-count" });
+			if (group.onClick) {
+				header.addClass("reflector-header-clickable");
+				header.addEventListener("click", group.onClick);
+			}
+
+			const todos = section.createDiv({ cls: "reflector-todos" });
+			for (const item of group.items) {
+				this.renderItem(todos, item);
+			}
+		}
+
+		if (groups.length > MAX_GROUPS) {
+			list.createDiv({
+				text: `+ ${groups.length - MAX_GROUPS} more groups`,
+				cls: "reflector-overflow",
+			});
+		}
+	}
+
+	private renderItem(list: HTMLElement, item: MeetingActionItem): void {
+		const el = list.createDiv({ cls: "reflector-todo" });
+		if (isOverdue(item)) {
+			el.addClass("reflector-todo-overdue");
+		}
+		if (item.status === "in-progress") {
+			el.addClass("reflector-todo-in-progress");
+		}
+
+		const checkbox = el.createDiv({ cls: "reflector-todo-checkbox" });
+		setIcon(checkbox, TODO_STATUS_ICONS[item.status]);
+		checkbox.setAttribute("aria-label", "Mark as done");
+		checkbox.addEventListener("click", (evt) => {
+			evt.stopPropagation();
+			void this.complete(item, el, checkbox);
+		});
+
+		const content = el.createDiv({ cls: "reflector-todo-content" });
+		content.createDiv({ text: item.description, cls: "reflector-todo-text" });
+
+		const context = content.createDiv({ cls: "reflector-todo-context" });
+		renderTodoMetadata(context, item);
+		if (this.groupBy !== "meeting") {
+			context.createSpan({
+				text: `${item.meeting.title} · ${item.meeting.date}`,
+				cls: "reflector-todo-source",
+			});
+		}
+		if (item.meeting.attendees.length > 0) {
+			context.createSpan({
+				text: item.meeting.attendees.join(", "),
+				cls: "reflector-todo-via",
+			});
+		}
+
+		el.addEventListener("click", () => {
+			console.debug("[Reflector] ACTION ITEM clicked", { text: item.text });
+			void navigateToTodo(this.app, item);
+		});
+	}
+
+	/**
+	 * Tick an action item in its file. It stays in the list, struck through,
+	 * until the next reload.
+	 */
+	private async complete(
+		item: MeetingActionItem,
+		el: HTMLElement,
+		checkbox: HTMLElement
+	): Promise<void> {
+		const written = await this.plugin.todoService.setStatus(item, "done");
+		if (!written) {
+			await this.refresh();
+			return;
+		}
+		el.addClass("reflector-todo-done");
+		el.removeClass("reflector-todo-overdue", "reflector-todo-in-progress");
+		setIcon(checkbox, TODO_STATUS_ICONS.done);
+	}
+
+	/**
+	 * Keep items matching every filter word: "#tag" words match the meeting's
+	 * tags (including nested tags), other words the text, meeting or attendees
+	 */
+	private filterItems(items: MeetingActionItem[]): MeetingActionItem[] {
+		const words = this.filterText.toLowerCase().split(/\s+/).filter(Boolean);
+		if (words.length === 0) return items;
+
+		return items.filter((item) => {
+			const tags = item.meeting.tags.map((tag) => tag.toLowerCase());
+			const haystack = [item.text, item.meeting.title, ...item.meeting.attendees]
+				.join(" ")
+				.toLowerCase();
+			return words.every((word) =>
+				word.startsWith("#")
+					? tags.some((tag) => tag === word || tag.startsWith(`${word}/`))
+					: haystack.includes(word)
+			);
+		});
+	}
+
+	private groupItems(items: MeetingActionItem[]): ActionItemGroup[] {
+		const groups = new Map<string, ActionItemGroup>();
+		const add = (key: string, item: MeetingActionItem, create: () => ActionItemGroup) => {
+			let group = groups.get(key);
+			if (!group) {
+				group = create();
+				groups.set(key, group);
+			}
+			group.items.push(item);
+		};
+
+		for (const item of items) {
+			const meeting = item.meeting;
+			switch (this.groupBy) {
+				case "meeting":
+					add(this.plugin.parser.getNoteKey(meeting), item, () => ({
+						label: meeting.title,
+						meta: meeting.date,
+						items: [],
+						onClick: () => void navigateToNote(this.app, meeting),
+					}));
+					break;
+				case "tag":
+					if (meeting.tags.length === 0) {
+						add("", item, () => ({ label: "Untagged", items: [] }));
+					}
+					for (const tag of new Set(meeting.tags)) {
+						add(tag.toLowerCase(), item, () => ({ label: tag, items: [] }));
+					}
+					break;
+				case "age": {
+					const label = this.getAgeBucket(meeting.date);
+					add(label, item, () => ({ label, items: [] }));
+					break;
+				}
+			}
+		}
+
+		const result = [...groups.values()];
+		if (this.groupBy === "tag") {
+			// Biggest tags first, untagged last
+			result.sort(
+				(a, b) =>
+					Number(a.label === "Untagged") - Number(b.label === "Untagged") ||
+					b.items.length - a.items.length ||
+					a.label.localeCompare(b.label)
+			);
+		}
+		return result;
+	}
+
+	private getAgeBucket(date: string): string {
+		const days = moment().startOf("day").diff(moment(date, "YYYY-MM-DD"), "days");
+		for (const [maxDays, label] of AGE_BUCKETS) {
+			if (days <= maxDays) return label;
+		}
+		return "Older";
+	}
+}
@@ -0,0 +1,156 @@
+import { App, Modal, moment, Notice, Setting } from "obsidian";
+import type ReflectorPlugin from "../main";
+import { CalendarExpansion, expandEvents, IcsEvent, parseIcs } from "../services/ics-parser";
+
+/** Days imported by default, starting today */
+const DEFAULT_RANGE_DAYS = 7;
+
+/**
+ * Asks for an .ics file and a date range, then adds the calendar's meetings
+ * in that range to their daily notes
+ */
+export class CalendarImportModal extends Modal {
+	private plugin: ReflectorPlugin;
+	private events: IcsEvent[] = [];
+	private from = moment().format("YYYY-MM-DD");
+	private to = moment()
+		.add(DEFAULT_RANGE_DAYS - 1, "days")
+		.format("YYYY-MM-DD");
+	private includeDescriptions = false;
+	private summaryEl: HTMLElement | null = null;
+
+	constructor(app: App, plugin: ReflectorPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle("Import meetings from calendar");
+
+		new Setting(contentEl)
+			.setName("Calendar file")
+			.setDesc("An .ics file exported from your calendar")
+			.then((setting) => {
+				const input = setting.controlEl.createEl("input", { type: "file" });
+				input.accept = ".ics,text/calendar";
+				input.addEventListener("change", () => {
+					const file = input.files?.[0];
+					if (file) void this.readFile(file);
+				});
+			});
+
+		new Setting(contentEl)
+			.setName("Date range")
+			.setDesc("Recurring meetings are added for every day in this range")
+			.addText((text) => {
+				text.inputEl.type = "date";
+				text.inputEl.setAttribute("aria-label", "From date");
+				text.setValue(this.from).onChange((value) => {
+					this.from = value;
+					this.updateSummary();
+				});
+			})
+			.addText((text) => {
+				text.inputEl.type = "date";
+				text.inputEl.setAttribute("aria-label", "To date");
+				text.setValue(this.to).onChange((value) => {
+					this.to = value;
+					this.updateSummary();
+				});
+			});
+
+		new Setting(contentEl)
+			.setName("Include event descriptions")
+			.setDesc("Add each event's description below its attendees")
+			.addToggle((toggle) =>
+				toggle.setValue(this.includeDescriptions).onChange((value) => {
+					this.includeDescriptions = value;
+				})
+			);
+
+		this.summaryEl = contentEl.createDiv({ cls: "setting-item-description" });
+		this.updateSummary();
+
+		new Setting(contentEl).addButton((button) =>
+			button
+				.setButtonText("Import")
+				.setCta()
+				.onClick(() => void this.submit())
+		);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private async readFile(file: File): Promise<void> {
+		try {
+			this.events = parseIcs(await file.text());
+		} catch (error) {
+			console.error("[Reflector] Could not read calendar file", error);
+			this.events = [];
+			new Notice(`Could not read ${file.name}`);
+		}
+		this.updateSummary();
+	}
+
+	/**
+	 * Timed meetings of the calendar in the chosen range
+	 */
+	private getExpansion(): CalendarExpansion {
+		if (!this.from || !this.to || this.from > this.to) return { occurrences: [], truncated: [] };
+		const expansion = expandEvents(this.events, this.from, this.to);
+		return {
+			occurrences: expansion.occurrences.filter((occurrence) => !occurrence.allDay),
+			truncated: expansion.truncated,
+		};
+	}
+
+	private updateSummary(): void {
+		if (!this.summaryEl) return;
+		if (this.events.length === 0) {
+			this.summaryEl.setText("Choose a calendar file to import.");
+			return;
+		}
+		const { occurrences, truncated } = this.getExpansion();
+		const count = occurrences.length;
+		this.summaryEl.setText(
+			`${count} meeting${count === 1 ? "" : "s"} in this range. Meetings already in your daily notes are skipped.`
+		);
+		if (truncated.length > 0) {
+			this.summaryEl.createDiv({ text: this.formatTruncated(truncated), cls: "mod-warning" });
+		}
+	}
+
+	private formatTruncated(truncated: string[]): string {
+		return `Some occurrences are missing, as these repeat too often to expand: ${truncated.join(", ")}`;
+	}
+
+	private async submit(): Promise<void> {
+		const { occurrences, truncated } = this.getExpansion();
+		if (truncated.length > 0) {
+			new Notice(this.formatTruncated(truncated));
+		}
+		if (occurrences.length === 0) {
+			new Notice(this.events.length === 0 ? "Choose a calendar file to import" : "No meetings in this range");
+			return;
+		}
+
+		this.close();
+		try {
+			const { added, skipped } = await this.plugin.calendarImporter.import(
+				occurrences,
+				this.includeDescriptions
+			);
+			new Notice(
+				skipped > 0
+					? `Added ${added} meeting${added === 1 ? "" : "s"}, skipped ${skipped} that already existed`
+					: `Added ${added} meeting${added === 1 ? "" : "s"}`
+			);
+		} catch (error) {
+			console.error("[Reflector] Could not import calendar", error);
+			new Notice("Could not import the calendar");
+		}
+	}
+}
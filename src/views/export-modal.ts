@@ -0,0 +1,137 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import type ReflectorPlugin from "../main";
+import { EXPORT_EXTENSIONS, ExportFormat, ExportOptions } from "../services/meeting-exporter";
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+	json: "JSON",
+	csv: "CSV",
+	markdown: "Markdown digest",
+};
+
+/**
+ * Asks for the export format, filters and output path, then writes the export
+ */
+export class ExportModal extends Modal {
+	private plugin: ReflectorPlugin;
+	private options: ExportOptions;
+	/** Whether the path was typed in, so changing the format keeps it */
+	private pathEdited = false;
+	private pathInput: HTMLInputElement | null = null;
+
+	constructor(app: App, plugin: ReflectorPlugin) {
+		super(app);
+		this.plugin = plugin;
+		this.options = {
+			format: "json",
+			from: "",
+			to: "",
+			tags: [],
+			path: plugin.meetingExporter.getDefaultPath("json"),
+		};
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle("Export meetings");
+
+		new Setting(contentEl).setName("Format").addDropdown((dropdown) => {
+			for (const format of Object.keys(FORMAT_LABELS) as ExportFormat[]) {
+				dropdown.addOption(format, FORMAT_LABELS[format]);
+			}
+			dropdown.setValue(this.options.format).onChange((value) => {
+				this.options.format = value as ExportFormat;
+				this.updatePathExtension();
+			});
+		});
+
+		new Setting(contentEl)
+			.setName("Date range")
+			.setDesc("Leave empty to export every date")
+			.addText((text) => {
+				text.inputEl.type = "date";
+				text.inputEl.setAttribute("aria-label", "From date");
+				text.onChange((value) => {
+					this.options.from = value;
+				});
+			})
+			.addText((text) => {
+				text.inputEl.type = "date";
+				text.inputEl.setAttribute("aria-label", "To date");
+				text.onChange((value) => {
+					this.options.to = value;
+				});
+			});
+
+		new Setting(contentEl)
+			.setName("Tags")
+			.setDesc("Only meetings with all of these tags. Leave empty to export every meeting.")
+			.addText((text) =>
+				text.setPlaceholder("#project-alpha").onChange((value) => {
+					this.options.tags = value.split(/[\s,]+/).filter(Boolean);
+				})
+			);
+
+		new Setting(contentEl)
+			.setName("Save to")
+			.setDesc("Path in the vault. An existing file is replaced.")
+			.addText((text) => {
+				this.pathInput = text.inputEl;
+				text.setValue(this.options.path).onChange((value) => {
+					this.options.path = value;
+					this.pathEdited = true;
+				});
+			});
+
+		const privateTag = this.plugin.settings.privateTag.trim();
+		if (privateTag) {
+			contentEl.createDiv({
+				text: `Meetings tagged ${privateTag} are not exported.`,
+				cls: "setting-item-description",
+			});
+		}
+
+		new Setting(contentEl).addButton((button) =>
+			button
+				.setButtonText("Export")
+				.setCta()
+				.onClick(() => void this.submit())
+		);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	/**
+	 * Follow the format with the file extension, unless the path was typed in
+	 */
+	private updatePathExtension(): void {
+		if (this.pathEdited) return;
+		this.options.path = this.plugin.meetingExporter.getDefaultPath(this.options.format);
+		if (this.pathInput) {
+			this.pathInput.value = this.options.path;
+		}
+	}
+
+	private async submit(): Promise<void> {
+		const path = this.options.path.trim();
+		if (!path) {
+			new Notice("Enter a path to save the export to");
+			return;
+		}
+		const extension = EXPORT_EXTENSIONS[this.options.format];
+		const options = { ...this.options, path: path.endsWith(`.${extension}`) ? path : `${path}.${extension}` };
+
+		this.close();
+		try {
+			const { file, count } = await this.plugin.meetingExporter.export(options);
+			new Notice(`Exported ${count} meeting${count === 1 ? "" : "s"} to ${file.path}`);
+			if (options.format === "markdown") {
+				await this.app.workspace.getLeaf(false).openFile(file);
+			}
+		} catch (error) {
+			console.error("[Reflector] Could not export meetings", error);
+			new Notice("Could not export meetings");
+		}
+	}
+}
@@ -0,0 +1,141 @@
+import { App, MarkdownView, TFile, WorkspaceLeaf } from "obsidian";
+import type { MeetingNote, TodoItem } from "../types";
+
+/**
+ * Find the first line of actual content in a meeting note (after H3 and tags)
+ */
+function findContentStartLine(note: MeetingNote): number {
+	const lines = note.content.split("\n");
+	// Content ends at lineEnd; this skips the H3, or a meeting file's frontmatter
+	const firstContentLine = note.lineEnd - lines.length;
+	let contentLine = firstContentLine;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i]?.trim() ?? "";
+		// Skip empty lines, lines that are just tags, and `key:: value` fields
+		if (
+			line === "" ||
+			/^#[\w/-]+(\s+#[\w/-]+)*$/.test(line) ||
+			/^[\w-]+::/.test(line)
+		) {
+			contentLine = firstContentLine + i + 1;
+			continue;
+		}
+		break;
+	}
+
+	return contentLine;
+}
+
+/**
+ * Find a markdown leaf, preferring one with the target file open
+ */
+export function findMarkdownLeaf(app: App, targetFile?: TFile): WorkspaceLeaf | null {
+	const leaves = app.workspace.getLeavesOfType("markdown");
+
+	console.debug("[Reflector] findMarkdownLeaf called", {
+		targetFile: targetFile?.path,
+		leavesCount: leaves.length,
+		leafTypes: leaves.map((l) => ({
+			type: l.view?.getViewType(),
+			file: l.view instanceof MarkdownView ? l.view.file?.path : null,
+		})),
+	});
+
+	// First, try to find a leaf with the target file
+	if (targetFile) {
+		for (const leaf of leaves) {
+			if (leaf.view instanceof MarkdownView && leaf.view.file?.path === targetFile.path) {
+				console.debug("[Reflector] Found leaf with target file");
+				return leaf;
+			}
+		}
+	}
+
+	// Otherwise return the first markdown leaf
+	const result = leaves[0] ?? null;
+	console.debug("[Reflector] Returning first leaf", { found: !!result });
+	return result;
+}
+
+export async function navigateToNote(app: App, note: MeetingNote): Promise<void> {
+	console.debug("[Reflector] navigateToNote called", {
+		noteHeading: note.heading,
+		noteFile: note.file.path,
+		noteLineStart: note.lineStart,
+	});
+
+	// Find the content start line (below H3 and tags)
+	const targetLine = findContentStartLine(note);
+	console.debug("[Reflector] Target line calculated", { targetLine });
+
+	// Try to find an existing markdown leaf with this file
+	let leaf = findMarkdownLeaf(app, note.file);
+
+	const fileAlreadyOpen = leaf && leaf.view instanceof MarkdownView && leaf.view.file?.path === note.file.path;
+	console.debug("[Reflector] File already open?", { fileAlreadyOpen });
+
+	if (fileAlreadyOpen && leaf && leaf.view instanceof MarkdownView) {
+		// File is already open, just navigate
+		console.debug("[Reflector] Setting active leaf and cursor (file already open)");
+		app.workspace.setActiveLeaf(leaf, { focus: true });
+		const editor = leaf.view.editor;
+		editor.setCursor({ line: targetLine, ch: 0 });
+		editor.scrollIntoView(
+			{ from: { line: note.lineStart, ch: 0 }, to: { line: targetLine, ch: 0 } },
+			true
+		);
+		console.debug("[Reflector] Navigation complete (same file)");
+	} else {
+		// Need to open the file - get or create a markdown leaf
+		console.debug("[Reflector] Opening file in new/existing leaf");
+		leaf = findMarkdownLeaf(app) ?? app.workspace.getLeaf("tab");
+		await leaf.openFile(note.file);
+		app.workspace.setActiveLeaf(leaf, { focus: true });
+
+		// Wait for the view to be ready
+		setTimeout(() => {
+			console.debug("[Reflector] setTimeout callback - setting cursor");
+			if (leaf && leaf.view instanceof MarkdownView) {
+				const editor = leaf.view.editor;
+				editor.setCursor({ line: targetLine, ch: 0 });
+				editor.scrollIntoView(
+					{ from: { line: note.lineStart, ch: 0 }, to: { line: targetLine, ch: 0 } },
+					true
+				);
+				console.debug("[Reflector] Navigation complete (opened file)");
+			} else {
+				console.debug("[Reflector] ERROR: Leaf view is not MarkdownView after openFile");
+			}
+		}, 50);
+	}
+}
+
+export async function navigateToTodo(app: App, todo: TodoItem): Promise<void> {
+	let leaf = findMarkdownLeaf(app, todo.file);
+
+	if (leaf && leaf.view instanceof MarkdownView && leaf.view.file?.path === todo.file.path) {
+		app.workspace.setActiveLeaf(leaf, { focus: true });
+		const editor = leaf.view.editor;
+		editor.setCursor({ line: todo.line, ch: 0 });
+		editor.scrollIntoView(
+			{ from: { line: todo.line, ch: 0 }, to: { line: todo.line, ch: 0 } },
+			true
+		);
+	} else {
+		leaf = findMarkdownLeaf(app) ?? app.workspace.getLeaf("tab");
+		await leaf.openFile(todo.file);
+		app.workspace.setActiveLeaf(leaf, { focus: true });
+
+		setTimeout(() => {
+			if (leaf && leaf.view instanceof MarkdownView) {
+				const editor = leaf.view.editor;
+				editor.setCursor({ line: todo.line, ch: 0 });
+				editor.scrollIntoView(
+					{ from: { line: todo.line, ch: 0 }, to: { line: todo.line, ch: 0 } },
+					true
+				);
+			}
+		}, 50);
+	}
+}
@@ -0,0 +1,182 @@
+import { App, MarkdownView, Modal, moment, Notice, Setting } from "obsidian";
+import type ReflectorPlugin from "../main";
+import type { MeetingNote } from "../types";
+
+/** Wait after typing in the title before looking up earlier occurrences */
+const SERIES_LOOKUP_DELAY = 300;
+
+/**
+ * Asks for a new meeting's title, time, attendees and tags, then adds it to
+ * today's daily note and opens it. Offers the tags of the last meeting with
+ * the same title.
+ */
+export class NewMeetingModal extends Modal {
+	private plugin: ReflectorPlugin;
+	private title = "";
+	private startTime = moment().format("HH:mm");
+	private endTime = "";
+	private attendees = "";
+	private tags = "";
+	private previousEl: HTMLElement | null = null;
+	private tagsInput: HTMLInputElement | null = null;
+	private lookupTimer: number | null = null;
+
+	constructor(app: App, plugin: ReflectorPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle("New meeting");
+
+		new Setting(contentEl).setName("Title").addText((text) => {
+			text.setPlaceholder("Weekly sync").onChange((value) => {
+				this.title = value;
+				this.scheduleSeriesLookup();
+			});
+			text.inputEl.addEventListener("keydown", (evt) => {
+				if (evt.key === "Enter") {
+					evt.preventDefault();
+					void this.submit();
+				}
+			});
+			window.setTimeout(() => text.inputEl.focus(), 0);
+		});
+
+		this.previousEl = contentEl.createDiv({ cls: "reflector-new-meeting-previous" });
+
+		new Setting(contentEl)
+			.setName("Time")
+			.setDesc("Start and optional end time")
+			.addText((text) => {
+				text.inputEl.type = "time";
+				text.setValue(this.startTime).onChange((value) => {
+					this.startTime = value;
+				});
+			})
+			.addText((text) => {
+				text.inputEl.type = "time";
+				text.onChange((value) => {
+					this.endTime = value;
+				});
+			});
+
+		new Setting(contentEl)
+			.setName("Attendees")
+			.setDesc("Linked to their person notes when a people folder is set")
+			.addText((text) =>
+				text.setPlaceholder("Names, separated by commas").onChange((value) => {
+					this.attendees = value;
+				})
+			);
+
+		new Setting(contentEl)
+			.setName("Tags")
+			.setDesc("Space- or comma-separated")
+			.addText((text) => {
+				this.tagsInput = text.inputEl;
+				text.setPlaceholder("#project-alpha #standup").onChange((value) => {
+					this.tags = value;
+				});
+			});
+
+		new Setting(contentEl).addButton((button) =>
+			button
+				.setButtonText("Create")
+				.setCta()
+				.onClick(() => void this.submit())
+		);
+	}
+
+	onClose(): void {
+		if (this.lookupTimer !== null) {
+			window.clearTimeout(this.lookupTimer);
+		}
+		this.contentEl.empty();
+	}
+
+	private scheduleSeriesLookup(): void {
+		if (this.lookupTimer !== null) {
+			window.clearTimeout(this.lookupTimer);
+		}
+		this.lookupTimer = window.setTimeout(() => {
+			this.lookupTimer = null;
+			void this.showPreviousOccurrence();
+		}, SERIES_LOOKUP_DELAY);
+	}
+
+	/**
+	 * Offer the tags of the last meeting in the same series
+	 */
+	private async showPreviousOccurrence(): Promise<void> {
+		const container = this.previousEl;
+		if (!container) return;
+
+		const previous = this.title.trim()
+			? await this.plugin.parser.getLatestInSeries(this.title)
+			: null;
+		container.empty();
+		if (!previous || previous.tags.length === 0) return;
+
+		const row = container.createDiv({ cls: "reflector-suggestion" });
+		row.createSpan({
+			text: `Last time (${previous.date}):`,
+			cls: "reflector-suggestion-reason",
+		});
+		for (const tag of previous.tags) {
+			row.createSpan({ text: tag, cls: "reflector-tag reflector-tag-small" });
+		}
+		const reuse = row.createEl("button", { text: "Use these tags", cls: "mod-muted" });
+		reuse.addEventListener("click", () => this.reuseTags(previous));
+	}
+
+	private reuseTags(previous: MeetingNote): void {
+		const current = this.splitList(this.tags);
+		const merged = [...new Set([...current, ...previous.tags])];
+		this.tags = merged.join(" ");
+		if (this.tagsInput) {
+			this.tagsInput.value = this.tags;
+		}
+	}
+
+	private async submit(): Promise<void> {
+		const title = this.title.trim();
+		if (!title) {
+			new Notice("Enter a meeting title");
+			return;
+		}
+
+		this.close();
+		try {
+			const written = await this.plugin.meetingWriter.createMeeting({
+				date: moment().format("YYYY-MM-DD"),
+				title,
+				startTime: this.startTime || undefined,
+				endTime: (this.startTime && this.endTime) || undefined,
+				attendees: this.splitList(this.attendees, /,/),
+				tags: this.splitList(this.tags),
+			});
+
+			// Open the daily note with the cursor at the end of the new meeting
+			const leaf = this.app.workspace.getLeaf(false);
+			await leaf.openFile(written.file);
+			if (leaf.view instanceof MarkdownView) {
+				const editor = leaf.view.editor;
+				const line = Math.min(written.endLine, editor.lineCount() - 1);
+				editor.setCursor({ line, ch: editor.getLine(line).length });
+				editor.focus();
+			}
+		} catch (error) {
+			console.error("[Reflector] Could not create meeting", error);
+			new Notice("Could not create the meeting");
+		}
+	}
+
+	private splitList(value: string, separator = /[\s,]+/): string[] {
+		return value
+			.split(separator)
+			.map((item) => item.trim())
+			.filter(Boolean);
+	}
+}
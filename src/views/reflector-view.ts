@@ -1,16 +1,37 @@
-import { ItemView, WorkspaceLeaf, MarkdownView, setIcon, TFile, Editor } from "obsidian";
+import {
+	ItemView,
+	WorkspaceLeaf,
+	MarkdownView,
+	Menu,
+	moment,
+	Notice,
+	setIcon,
+	TFile,
+	Editor,
+	ViewStateResult,
+} from "obsidian";
 import type ReflectorPlugin from "../main";
-import type { MeetingNote, RelatedTodoItem, TagSuggestion } from "../types";
-
-interface TodoCounts {
-	total: number;
-	completed: number;
+import { isOverdue } from "../services/task-metadata";
+import { isClosedStatus } from "../services/task-status";
+import { findMarkdownLeaf, navigateToNote, navigateToTodo } from "./navigation";
+import { renderTodoMetadata, TODO_STATUS_ICONS } from "./todo-badges";
+import { TextPromptModal } from "./text-prompt-modal";
+import type {
+	MeetingNote,
+	PropertyFilter,
+	TagMatch,
+	TagMatchKind,
+	TagSuggestion,
+	TaskStatus,
+	TodoItem,
+} from "../types";
+
+interface ReflectorViewState {
+	propertyFilter?: string;
 }
 
 export const VIEW_TYPE_REFLECTOR = "reflector-view";
 
-const DAILY_NOTE_REGEX = /^\d{4}-\d{2}-\d{2}\.md$/;
-
 export class ReflectorView extends ItemView {
 	plugin: ReflectorPlugin;
 
@@ -22,6 +43,13 @@ export class ReflectorView extends ItemView {
 	private currentNote: MeetingNote | null = null;
 	private currentLine: number = -1;
 
+	// Property filter for related and untagged notes, e.g. "type:: review"
+	private propertyFilterText = "";
+
+	// Files the sidebar just wrote a TODO change to; their next change event
+	// is skipped because the TODO was already updated in place
+	private pendingTodoWrites = new Set<string>();
+
 	constructor(leaf: WorkspaceLeaf, plugin: ReflectorPlugin) {
 		super(leaf);
 		this.plugin = plugin;
@@ -39,6 +67,20 @@ export class ReflectorView extends ItemView {
 		return "glasses";
 	}
 
+	getState(): Record<string, unknown> {
+		const state: ReflectorViewState = { propertyFilter: this.propertyFilterText };
+		return { ...super.getState(), ...state };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const viewState = state as ReflectorViewState | null;
+		if (typeof viewState?.propertyFilter === "string") {
+			this.propertyFilterText = viewState.propertyFilter;
+		}
+		await super.setState(state, result);
+		await this.render();
+	}
+
 	async onOpen(): Promise<void> {
 		await this.render();
 	}
@@ -131,7 +173,14 @@ export class ReflectorView extends ItemView {
 		await this.checkCursorPosition();
 	}
 
-	async refresh(): Promise<void> {
+	/**
+	 * Re-render after the vault changed. `changedFile` is the file that
+	 * triggered the refresh, if any.
+	 */
+	async refresh(changedFile?: TFile): Promise<void> {
+		if (changedFile && this.pendingTodoWrites.delete(changedFile.path)) {
+			return;
+		}
 		// Reset cursor tracking but keep the file/editor reference
 		this.currentNote = null;
 		this.currentLine = -1;
@@ -142,9 +191,12 @@ export class ReflectorView extends ItemView {
 		const container = this.containerEl.children[1] as HTMLElement;
 		container.empty();
 		container.addClass("reflector-container");
+		this.pendingTodoWrites.clear();
+
+		this.renderFilterBar(container);
 
 		// Check if we're in a daily note
-		const isDailyNote = this.trackedFile && DAILY_NOTE_REGEX.test(this.trackedFile.name);
+		const isDailyNote = this.trackedFile && this.plugin.parser.isDailyNote(this.trackedFile);
 
 		// If in daily note, show meeting notes in this file
 		if (isDailyNote && this.trackedFile) {
@@ -154,6 +206,8 @@ export class ReflectorView extends ItemView {
 		// Context sections (when cursor is in a meeting note)
 		if (this.currentNote) {
 			await this.renderRelatedNotesSection(container);
+			await this.renderPeopleSection(container);
+			await this.renderSeriesHistorySection(container);
 			await this.renderTodosSection(container);
 			await this.renderTagSuggestionsSection(container);
 		}
@@ -162,10 +216,50 @@ export class ReflectorView extends ItemView {
 		await this.renderUntaggedSection(container);
 	}
 
+	private renderFilterBar(container: HTMLElement): void {
+		const bar = container.createDiv({ cls: "reflector-filter" });
+		setIcon(bar.createSpan({ cls: "reflector-filter-icon" }), "filter");
+		const input = bar.createEl("input", {
+			type: "text",
+			cls: "reflector-filter-input",
+			placeholder: "Filter by property, e.g. type:: review",
+			value: this.propertyFilterText,
+		});
+
+		// "change" fires on enter or blur, so typing doesn't re-render the view
+		input.addEventListener("change", () => {
+			this.propertyFilterText = input.value.trim();
+			this.app.workspace.requestSaveLayout();
+			void this.render();
+		});
+
+		const newMeeting = bar.createSpan({ cls: "reflector-header-button clickable-icon" });
+		newMeeting.setAttribute("aria-label", "New meeting");
+		setIcon(newMeeting, "calendar-plus");
+		newMeeting.addEventListener("click", () => this.plugin.openNewMeeting());
+	}
+
+	/**
+	 * Parse the filter bar text ("type:: review, project:: Alpha") into a filter
+	 */
+	private getPropertyFilter(): PropertyFilter | undefined {
+		const filter: PropertyFilter = {};
+		for (const part of this.propertyFilterText.split(",")) {
+			const match = part.match(/^\s*([\w-]+)\s*::?\s*(.*?)\s*$/);
+			if (match?.[1]) {
+				filter[match[1].toLowerCase()] = match[2] ?? "";
+			}
+		}
+		return Object.keys(filter).length > 0 ? filter : undefined;
+	}
+
 	private async renderDailyNoteMeetingsSection(container: HTMLElement): Promise<void> {
 		if (!this.trackedFile) return;
 
-		const meetings = await this.plugin.parser.parseDailyNote(this.trackedFile);
+		// Chronological by start time; meetings without a time keep file order at the end
+		const meetings = [...(await this.plugin.parser.getMeetingNotesInFile(this.trackedFile))].sort(
+			(a, b) => (a.startTime ?? "99:99").localeCompare(b.startTime ?? "99:99")
+		);
 
 		if (meetings.length === 0) {
 			return; // No meetings in this file
@@ -180,14 +274,17 @@ export class ReflectorView extends ItemView {
 			const card = content.createDiv({
 				cls: `reflector-card reflector-card-clickable ${isActive ? "reflector-card-active" : ""}`,
 			});
-			card.createDiv({ text: note.heading, cls: "reflector-card-title" });
+			card.createDiv({ text: note.title, cls: "reflector-card-title" });
+
+			const timeText = this.formatTimeRange(note);
+			if (timeText) {
+				card.createDiv({ text: timeText, cls: "reflector-card-meta reflector-card-time" });
+			}
 
-			// Show TODO counts
-			const todoCounts = this.countTodos(note.content);
-			if (todoCounts.total > 0) {
-				const todoText = todoCounts.completed === todoCounts.total
-					? `${todoCounts.total} Todo${todoCounts.total > 1 ? "s" : ""}, All Complete`
-					: `${todoCounts.total} Todo${todoCounts.total > 1 ? "s" : ""}, ${todoCounts.completed} Complete`;
+			// Show TODO counts by status, e.g. "3 open, 1 in progress, 2 done"
+			const todoService = this.plugin.todoService;
+			const todoText = todoService.formatTaskCounts(todoService.countTasks(note.content));
+			if (todoText) {
 				card.createDiv({ text: todoText, cls: "reflector-card-meta" });
 			}
 
@@ -202,24 +299,23 @@ export class ReflectorView extends ItemView {
 
 			card.addEventListener("click", () => {
 				console.debug("[Reflector] TODAY'S MEETINGS card clicked", { heading: note.heading });
-				void this.navigateToNote(note);
+				void navigateToNote(this.app, note);
 			});
 		}
 	}
 
-	private countTodos(content: string): TodoCounts {
-		const incompleteMatches = content.match(/- \[ \]/g);
-		const completeMatches = content.match(/- \[x\]/gi);
-		const incomplete = incompleteMatches ? incompleteMatches.length : 0;
-		const completed = completeMatches ? completeMatches.length : 0;
-		return {
-			total: incomplete + completed,
-			completed,
-		};
+	/**
+	 * Format a meeting's time for display, e.g. "10:00–10:30 · 30 min"
+	 */
+	private formatTimeRange(note: MeetingNote): string | null {
+		if (!note.startTime) return null;
+		if (!note.endTime) return note.startTime;
+		const duration = note.durationMinutes !== undefined ? ` · ${note.durationMinutes} min` : "";
+		return `${note.startTime}–${note.endTime}${duration}`;
 	}
 
 	private async renderUntaggedSection(container: HTMLElement): Promise<void> {
-		const untagged = await this.plugin.parser.getUntaggedMeetingNotes();
+		const untagged = await this.plugin.parser.getUntaggedMeetingNotes(this.getPropertyFilter());
 
 		// If all tagged, show subtle success state
 		if (untagged.length === 0) {
@@ -230,7 +326,10 @@ export class ReflectorView extends ItemView {
 		}
 
 		const section = container.createDiv({ cls: "reflector-section" });
-		this.renderSectionHeader(section, "alert-circle", "Untagged Notes", untagged.length);
+		const header = this.renderSectionHeader(section, "alert-circle", "Untagged Notes", untagged.length);
+		this.renderHeaderButton(header, "list-checks", "Triage untagged notes", () => {
+			this.plugin.openTriage();
+		});
 
 		const content = section.createDiv({ cls: "reflector-cards" });
 		for (const note of untagged.slice(0, 10)) {
@@ -239,7 +338,7 @@ export class ReflectorView extends ItemView {
 			card.createDiv({ text: note.date, cls: "reflector-card-meta" });
 			card.addEventListener("click", () => {
 				console.debug("[Reflector] UNTAGGED card clicked", { heading: note.heading });
-				void this.navigateToNote(note);
+				void navigateToNote(this.app, note);
 			});
 		}
 
@@ -256,22 +355,19 @@ export class ReflectorView extends ItemView {
 
 		const section = container.createDiv({ cls: "reflector-section" });
 
-		// If no tags, show message to add tags
-		if (this.currentNote.tags.length === 0) {
-			this.renderSectionHeader(section, "link", "Related Notes");
-			section.createDiv({
-				text: "Add tags to find related notes",
-				cls: "reflector-empty",
-			});
-			return;
-		}
-
-		const related = await this.plugin.parser.getRelatedMeetingNotes(this.currentNote);
+		// Without tags, related notes come from content similarity alone
+		const related = await this.plugin.parser.getRelatedMeetingNotes(
+			this.currentNote,
+			this.getPropertyFilter()
+		);
 		this.renderSectionHeader(section, "link", "Related Notes", related.length || undefined);
 
 		if (related.length === 0) {
 			section.createDiv({
-				text: "No related notes found",
+				text:
+					this.currentNote.tags.length === 0
+						? "Add tags or more content to find related notes"
+						: "No related notes found",
 				cls: "reflector-empty",
 			});
 			return;
@@ -283,22 +379,154 @@ export class ReflectorView extends ItemView {
 			card.createDiv({ text: note.heading, cls: "reflector-card-title" });
 			card.createDiv({ text: note.date, cls: "reflector-card-meta" });
 
-			// Show shared tags as context
-			const sharedTags = note.tags.filter((t) => this.currentNote!.tags.includes(t));
-			if (sharedTags.length > 0) {
+			// Show shared tags as context, marking parent/child and alias matches
+			if (note.tagMatches.length > 0) {
 				const tagsDiv = card.createDiv({ cls: "reflector-card-tags" });
-				for (const tag of sharedTags.slice(0, 3)) {
-					tagsDiv.createSpan({ text: tag, cls: "reflector-tag reflector-tag-small" });
+				for (const match of note.tagMatches.slice(0, 3)) {
+					this.renderTagMatch(tagsDiv, match, "reflector-tag-small");
 				}
 			}
 
+			// Show the words that made the content similar
+			if (note.similarTerms.length > 0) {
+				card.createDiv({
+					text: `Similar: ${note.similarTerms.slice(0, 3).join(", ")}`,
+					cls: "reflector-card-meta reflector-card-reason",
+				});
+			}
+
 			card.addEventListener("click", () => {
 				console.debug("[Reflector] RELATED NOTE card clicked", { heading: note.heading });
-				void this.navigateToNote(note);
+				void navigateToNote(this.app, note);
 			});
 		}
 	}
 
+	private async renderPeopleSection(container: HTMLElement): Promise<void> {
+		if (!this.currentNote) return;
+
+		const attendees = this.currentNote.attendees;
+		if (attendees.length === 0) {
+			return; // Don't show empty people section
+		}
+
+		const section = container.createDiv({ cls: "reflector-section" });
+		this.renderSectionHeader(section, "users", "People", attendees.length);
+
+		const todosByPerson = await this.plugin.todoService.getTodosMentioningPeople(attendees);
+
+		for (const person of attendees) {
+			const personDiv = section.createDiv({ cls: "reflector-person" });
+			const nameDiv = personDiv.createDiv({ cls: "reflector-person-name" });
+			setIcon(nameDiv.createSpan({ cls: "reflector-person-icon" }), "user");
+			nameDiv.createSpan({ text: person });
+
+			// Only meetings before the current one are useful for prep
+			const currentDate = this.currentNote.date;
+			const previous = (
+				await this.plugin.parser.getMeetingNotesWithAttendee(person, this.currentNote)
+			).filter((note) => note.date <= currentDate);
+			const todos = todosByPerson.get(person) ?? [];
+
+			if (previous.length === 0 && todos.length === 0) {
+				personDiv.createDiv({ text: "No previous meetings", cls: "reflector-card-empty" });
+				continue;
+			}
+
+			if (previous.length > 0) {
+				const cards = personDiv.createDiv({ cls: "reflector-cards" });
+				for (const note of previous.slice(0, 3)) {
+					const card = cards.createDiv({ cls: "reflector-card reflector-card-clickable" });
+					card.createDiv({ text: note.heading, cls: "reflector-card-title" });
+					card.createDiv({ text: note.date, cls: "reflector-card-meta" });
+					card.addEventListener("click", () => {
+						console.debug("[Reflector] PERSON MEETING card clicked", { person, heading: note.heading });
+						void navigateToNote(this.app, note);
+					});
+				}
+				if (previous.length > 3) {
+					personDiv.createDiv({
+						text: `+ ${previous.length - 3} more`,
+						cls: "reflector-overflow",
+					});
+				}
+			}
+
+			if (todos.length > 0) {
+				const todoList = personDiv.createDiv({ cls: "reflector-todos reflector-person-todos" });
+				for (const todo of todos.slice(0, 3)) {
+					this.renderTodoItem(todoList, todo);
+				}
+			}
+		}
+	}
+
+	/**
+	 * Earlier occurrences of the current meeting's series, with what was
+	 * discussed and the TODOs they left open
+	 */
+	private async renderSeriesHistorySection(container: HTMLElement): Promise<void> {
+		if (!this.currentNote) return;
+
+		const history = await this.plugin.parser.getSeriesHistory(this.currentNote);
+		if (history.length === 0) {
+			return; // Not a recurring meeting
+		}
+
+		const section = container.createDiv({ cls: "reflector-section" });
+		this.renderSectionHeader(section, "history", "Series History", history.length);
+
+		const cards = section.createDiv({ cls: "reflector-cards" });
+		for (const note of history.slice(0, 5)) {
+			const card = cards.createDiv({ cls: "reflector-card reflector-card-clickable" });
+			card.createDiv({ text: note.title, cls: "reflector-card-title" });
+			card.createDiv({ text: note.date, cls: "reflector-card-meta" });
+			const excerpt = this.getExcerpt(note);
+			if (excerpt) {
+				card.createDiv({ text: excerpt, cls: "reflector-card-excerpt" });
+			}
+			card.addEventListener("click", () => {
+				console.debug("[Reflector] SERIES HISTORY card clicked", { heading: note.heading });
+				void navigateToNote(this.app, note);
+			});
+		}
+		if (history.length > 5) {
+			section.createDiv({ text: `+ ${history.length - 5} more`, cls: "reflector-overflow" });
+		}
+
+		// TODOs left open in any earlier occurrence, oldest meeting first
+		const openTodos = (await this.plugin.todoService.getMeetingActionItems(history)).reverse();
+		if (openTodos.length > 0) {
+			section.createDiv({ text: "Still open from earlier occurrences", cls: "reflector-subheader" });
+			const todoList = section.createDiv({ cls: "reflector-todos" });
+			for (const todo of openTodos.slice(0, 8)) {
+				this.renderTodoItem(todoList, todo, (contextDiv) => {
+					contextDiv.createSpan({ text: ` · ${todo.meeting.title}`, cls: "reflector-todo-via" });
+				});
+			}
+		}
+	}
+
+	/**
+	 * The first few lines of a meeting's notes, skipping tags, fields and TODOs
+	 */
+	private getExcerpt(note: MeetingNote): string {
+		const lines = note.content
+			.split("\n")
+			.map((line) => line.trim())
+			.filter(
+				(line) =>
+					line !== "" &&
+					!/^#[\w/-]+(\s+#[\w/-]+)*$/.test(line) &&
+					!/^(?:[-*+]\s+)?[\w-]+::/.test(line) &&
+					!/^[-*+]\s+\[.?\]/.test(line)
+			)
+			.map((line) => line.replace(/^[-*+]\s+/, ""));
+
+		const excerpt = lines.slice(0, 3).join(" · ");
+		return excerpt.length > 140 ? `${excerpt.slice(0, 139)}…` : excerpt;
+	}
+
 	private async renderTodosSection(container: HTMLElement): Promise<void> {
 		if (!this.currentNote) return;
 
@@ -313,38 +541,182 @@ export class ReflectorView extends ItemView {
 
 		const content = section.createDiv({ cls: "reflector-todos" });
 		for (const todo of todos.slice(0, 8)) {
-			const item = content.createDiv({ cls: "reflector-todo" });
+			this.renderTodoItem(content, todo, (contextDiv) => {
+				if (todo.tagMatches.length > 0) {
+					contextDiv.createSpan({ text: " via ", cls: "reflector-todo-via" });
+					for (const match of todo.tagMatches.slice(0, 2)) {
+						this.renderTagMatch(contextDiv, match, "reflector-tag-tiny");
+					}
+				} else if (todo.relationReason === "linked") {
+					contextDiv.createSpan({ text: " (linked)", cls: "reflector-todo-via" });
+				}
+			});
+		}
+	}
 
+	/**
+	 * Render a TODO with a working checkbox and a context menu. Changes are
+	 * written to the source file and redrawn in place, without a full refresh.
+	 * `renderReason` adds to the context line, after the source file.
+	 */
+	private renderTodoItem(
+		list: HTMLElement,
+		todo: TodoItem,
+		renderReason?: (contextDiv: HTMLElement) => void
+	): void {
+		const item = list.createDiv({ cls: "reflector-todo" });
+
+		const draw = () => {
+			item.empty();
+			const closed = isClosedStatus(todo.status);
+			item.toggleClass("reflector-todo-done", closed);
+			item.toggleClass("reflector-todo-in-progress", todo.status === "in-progress");
+			item.toggleClass("reflector-todo-overdue", !closed && isOverdue(todo));
+
+			// Clicking ticks an open task, and reopens a finished one
+			const nextStatus: TaskStatus = closed ? "open" : "done";
 			const checkbox = item.createDiv({ cls: "reflector-todo-checkbox" });
-			setIcon(checkbox, "square");
+			setIcon(checkbox, TODO_STATUS_ICONS[todo.status]);
+			checkbox.setAttribute("aria-label", closed ? "Reopen" : "Mark as done");
+			checkbox.addEventListener("click", (evt) => {
+				evt.stopPropagation();
+				console.debug("[Reflector] TODO checkbox clicked", { text: todo.text });
+				void this.writeTodo(todo, draw, () =>
+					this.plugin.todoService.setStatus(todo, nextStatus)
+				);
+			});
 
 			const textDiv = item.createDiv({ cls: "reflector-todo-content" });
-			textDiv.createDiv({ text: todo.text, cls: "reflector-todo-text" });
+			textDiv.createDiv({ text: todo.description, cls: "reflector-todo-text" });
 
-			// Context line with source and reason
+			// Context line with dates, priority, source and reason
 			const contextDiv = textDiv.createDiv({ cls: "reflector-todo-context" });
+			renderTodoMetadata(contextDiv, todo);
 			contextDiv.createSpan({ text: todo.file.basename, cls: "reflector-todo-source" });
+			renderReason?.(contextDiv);
+		};
+		draw();
 
-			if (todo.matchingTags.length > 0) {
-				contextDiv.createSpan({ text: " via ", cls: "reflector-todo-via" });
-				for (const tag of todo.matchingTags.slice(0, 2)) {
-					contextDiv.createSpan({ text: tag, cls: "reflector-tag reflector-tag-tiny" });
-				}
-			} else if (todo.relationReason === "linked") {
-				contextDiv.createSpan({ text: " (linked)", cls: "reflector-todo-via" });
-			}
+		item.addEventListener("click", () => {
+			console.debug("[Reflector] TODO item clicked", { text: todo.text });
+			void navigateToTodo(this.app, todo);
+		});
+		item.addEventListener("contextmenu", (evt) => {
+			evt.preventDefault();
+			this.showTodoMenu(evt, todo, draw);
+		});
+	}
 
-			item.addEventListener("click", () => {
-				console.debug("[Reflector] TODO item clicked", { text: todo.text });
-				void this.navigateToTodo(todo);
-			});
+	private showTodoMenu(evt: MouseEvent, todo: TodoItem, redraw: () => void): void {
+		const todoService = this.plugin.todoService;
+		const menu = new Menu();
+
+		const statusItems: [TaskStatus, string][] = [
+			["done", "Mark as done"],
+			["in-progress", "Mark as in progress"],
+			["open", "Mark as open"],
+			["cancelled", "Cancel"],
+		];
+		for (const [status, label] of statusItems) {
+			if (status === todo.status) continue;
+			menu.addItem((item) =>
+				item
+					.setTitle(label)
+					.setIcon(TODO_STATUS_ICONS[status])
+					.onClick(() => void this.writeTodo(todo, redraw, () =>
+						todoService.setStatus(todo, status)
+					))
+			);
+		}
+		menu.addSeparator();
+
+		for (const [label, days] of [["Snooze 1 day", 1], ["Snooze 1 week", 7]] as const) {
+			menu.addItem((item) =>
+				item
+					.setTitle(label)
+					.setIcon("alarm-clock")
+					.onClick(() => void this.writeTodo(todo, redraw, () =>
+						todoService.setDueDate(todo, this.snoozedDate(todo, days))
+					))
+			);
+		}
+		menu.addItem((item) =>
+			item
+				.setTitle("Set due date…")
+				.setIcon("calendar")
+				.onClick(() => {
+					new TextPromptModal(
+						this.app,
+						"Due date",
+						todo.dueDate ?? moment().format("YYYY-MM-DD"),
+						(value) => {
+							if (!value) return;
+							void this.writeTodo(todo, redraw, () => todoService.setDueDate(todo, value));
+						},
+						"date"
+					).open();
+				})
+		);
+		if (todo.dueDate) {
+			menu.addItem((item) =>
+				item
+					.setTitle("Remove due date")
+					.setIcon("calendar-x")
+					.onClick(() => void this.writeTodo(todo, redraw, () =>
+						todoService.setDueDate(todo, null)
+					))
+			);
+		}
+		menu.addSeparator();
+
+		menu.addItem((item) =>
+			item
+				.setTitle("Edit text…")
+				.setIcon("pencil")
+				.onClick(() => {
+					new TextPromptModal(this.app, "Edit task", todo.text, (value) => {
+						if (!value || value === todo.text) return;
+						void this.writeTodo(todo, redraw, () => todoService.updateText(todo, value));
+					}).open();
+				})
+		);
+
+		menu.showAtMouseEvent(evt);
+	}
+
+	/**
+	 * Push a due date back by some days, counting from today if it is overdue
+	 */
+	private snoozedDate(todo: TodoItem, days: number): string {
+		const today = moment().format("YYYY-MM-DD");
+		const from = todo.dueDate && todo.dueDate > today ? todo.dueDate : today;
+		return moment(from, "YYYY-MM-DD").add(days, "days").format("YYYY-MM-DD");
+	}
+
+	/**
+	 * Run a TODO write, then redraw just that TODO. If the line changed since
+	 * the sidebar read it, nothing is written and the sidebar refreshes.
+	 */
+	private async writeTodo(
+		todo: TodoItem,
+		redraw: () => void,
+		write: () => Promise<boolean>
+	): Promise<void> {
+		this.pendingTodoWrites.add(todo.file.path);
+		const written = await write();
+		if (!written) {
+			this.pendingTodoWrites.delete(todo.file.path);
+			new Notice(`"${todo.description}" changed in ${todo.file.basename}. Refreshing.`);
+			await this.refresh();
+			return;
 		}
+		redraw();
 	}
 
 	private async renderTagSuggestionsSection(container: HTMLElement): Promise<void> {
 		if (!this.currentNote) return;
 
-		const suggestions = this.plugin.tagService.suggestTags(this.currentNote);
+		const suggestions = await this.plugin.tagService.suggestTags(this.currentNote);
 
 		if (suggestions.length === 0) {
 			return; // Don't show empty suggestions
@@ -380,7 +752,7 @@ export class ReflectorView extends ItemView {
 		}
 
 		// Find the markdown leaf with this file
-		const leaf = this.findMarkdownLeaf(note.file);
+		const leaf = findMarkdownLeaf(this.app, note.file);
 		if (!leaf || !(leaf.view instanceof MarkdownView)) {
 			console.debug("[Reflector] ERROR: Could not find markdown leaf", {
 				leafFound: !!leaf,
@@ -396,37 +768,14 @@ export class ReflectorView extends ItemView {
 		const savedCursor = editor.getCursor();
 		console.debug("[Reflector] Saved cursor position", savedCursor);
 
-		// Read the file content
-		const content = await this.app.vault.read(note.file);
-		const lines = content.split("\n");
-
-		// Insert tag on the line below the H3 heading
-		const insertLine = note.lineStart + 1;
-		const currentLineContent = lines[insertLine] ?? "";
-
-		console.debug("[Reflector] Inserting tag", {
-			insertLine,
-			currentLineContent,
-			tag: suggestion.tag,
-		});
-
-		// If the line already has content, append the tag with a space
-		// Otherwise, just add the tag
-		let newLineContent: string;
-		if (currentLineContent.trim() === "") {
-			newLineContent = suggestion.tag;
-		} else {
-			newLineContent = currentLineContent + " " + suggestion.tag;
+		// Write the tag into the file
+		console.debug("[Reflector] Writing tag to file", { tag: suggestion.tag });
+		const written = await this.plugin.tagWriter.addTag(note, suggestion.tag);
+		if (!written) {
+			console.debug("[Reflector] ERROR: meeting heading not found, tag not added");
+			return;
 		}
 
-		// Update the line
-		lines[insertLine] = newLineContent;
-		const newContent = lines.join("\n");
-
-		// Write the file
-		console.debug("[Reflector] Writing modified content to file");
-		await this.app.vault.modify(note.file, newContent);
-
 		// Focus back on the editor and restore cursor position
 		console.debug("[Reflector] Focusing leaf and restoring cursor");
 		this.app.workspace.setActiveLeaf(leaf, { focus: true });
@@ -436,150 +785,54 @@ export class ReflectorView extends ItemView {
 		}, 50);
 	}
 
+	/**
+	 * Render a matched tag, noting when it matched through a parent,
+	 * child or alias rather than exactly
+	 */
+	private renderTagMatch(parent: HTMLElement, match: TagMatch, sizeCls: string): void {
+		const tagEl = parent.createSpan({ text: match.matchedTag, cls: `reflector-tag ${sizeCls}` });
+		if (match.kind === "exact") return;
+
+		const labels: Record<Exclude<TagMatchKind, "exact">, string> = {
+			alias: `alias of ${match.sourceTag}`,
+			parent: `parent of ${match.sourceTag}`,
+			child: `nested in ${match.sourceTag}`,
+		};
+		tagEl.addClass("reflector-tag-indirect");
+		tagEl.createSpan({ text: ` · ${match.kind}`, cls: "reflector-tag-match-kind" });
+		tagEl.setAttribute("aria-label", labels[match.kind]);
+	}
+
 	private renderSectionHeader(
 		section: HTMLElement,
 		icon: string,
 		title: string,
 		count?: number
-	): void {
+	): HTMLElement {
 		const header = section.createDiv({ cls: "reflector-header" });
 		setIcon(header.createSpan({ cls: "reflector-header-icon" }), icon);
 		header.createSpan({ text: title, cls: "reflector-header-title" });
 		if (count !== undefined) {
 			header.createSpan({ text: String(count), cls: "reflector-header-count" });
 		}
+		return header;
 	}
 
 	/**
-	 * Find the first line of actual content in a meeting note (after H3 and tags)
-	 */
-	private findContentStartLine(note: MeetingNote): number {
-		const lines = note.content.split("\n");
-		let contentLine = note.lineStart + 1; // Start after H3
-
-		for (let i = 0; i < lines.length; i++) {
-			const line = lines[i]?.trim() ?? "";
-			// Skip empty lines and lines that are just tags
-			if (line === "" || /^#[\w/-]+(\s+#[\w/-]+)*$/.test(line)) {
-				contentLine = note.lineStart + 1 + i + 1;
-				continue;
-			}
-			break;
-		}
-
-		return contentLine;
-	}
-
-	/**
-	 * Find a markdown leaf, preferring one with the target file open
+	 * Add a small icon button to the right of a section header
 	 */
-	private findMarkdownLeaf(targetFile?: TFile): WorkspaceLeaf | null {
-		const leaves = this.app.workspace.getLeavesOfType("markdown");
-
-		console.debug("[Reflector] findMarkdownLeaf called", {
-			targetFile: targetFile?.path,
-			leavesCount: leaves.length,
-			leafTypes: leaves.map((l) => ({
-				type: l.view?.getViewType(),
-				file: l.view instanceof MarkdownView ? l.view.file?.path : null,
-			})),
-		});
-
-		// First, try to find a leaf with the target file
-		if (targetFile) {
-			for (const leaf of leaves) {
-				if (leaf.view instanceof MarkdownView && leaf.view.file?.path === targetFile.path) {
-					console.debug("[Reflector] Found leaf with target file");
-					return leaf;
-				}
-			}
-		}
-
-		// Otherwise return the first markdown leaf
-		const result = leaves[0] ?? null;
-		console.debug("[Reflector] Returning first leaf", { found: !!result });
-		return result;
-	}
-
-	private async navigateToNote(note: MeetingNote): Promise<void> {
-		console.debug("[Reflector] navigateToNote called", {
-			noteHeading: note.heading,
-			noteFile: note.file.path,
-			noteLineStart: note.lineStart,
+	private renderHeaderButton(
+		header: HTMLElement,
+		icon: string,
+		label: string,
+		onClick: () => void
+	): void {
+		const button = header.createSpan({ cls: "reflector-header-button clickable-icon" });
+		button.setAttribute("aria-label", label);
+		setIcon(button, icon);
+		button.addEventListener("click", (evt) => {
+			evt.stopPropagation();
+			onClick();
 		});
-
-		// Find the content start line (below H3 and tags)
-		const targetLine = this.findContentStartLine(note);
-		console.debug("[Reflector] Target line calculated", { targetLine });
-
-		// Try to find an existing markdown leaf with this file
-		let leaf = this.findMarkdownLeaf(note.file);
-
-		const fileAlreadyOpen = leaf && leaf.view instanceof MarkdownView && leaf.view.file?.path === note.file.path;
-		console.debug("[Reflector] File already open?", { fileAlreadyOpen });
-
-		if (fileAlreadyOpen && leaf && leaf.view instanceof MarkdownView) {
-			// File is already open, just navigate
-			console.debug("[Reflector] Setting active leaf and cursor (file already open)");
-			this.app.workspace.setActiveLeaf(leaf, { focus: true });
-			const editor = leaf.view.editor;
-			editor.setCursor({ line: targetLine, ch: 0 });
-			editor.scrollIntoView(
-				{ from: { line: note.lineStart, ch: 0 }, to: { line: targetLine, ch: 0 } },
-				true
-			);
-			console.debug("[Reflector] Navigation complete (same file)");
-		} else {
-			// Need to open the file - get or create a markdown leaf
-			console.debug("[Reflector] Opening file in new/existing leaf");
-			leaf = this.findMarkdownLeaf() ?? this.app.workspace.getLeaf("tab");
-			await leaf.openFile(note.file);
-			this.app.workspace.setActiveLeaf(leaf, { focus: true });
-
-			// Wait for the view to be ready
-			setTimeout(() => {
-				console.debug("[Reflector] setTimeout callback - setting cursor");
-				if (leaf && leaf.view instanceof MarkdownView) {
-					const editor = leaf.view.editor;
-					editor.setCursor({ line: targetLine, ch: 0 });
-					editor.scrollIntoView(
-						{ from: { line: note.lineStart, ch: 0 }, to: { line: targetLine, ch: 0 } },
-						true
-					);
-					console.debug("[Reflector] Navigation complete (opened file)");
-				} else {
-					console.debug("[Reflector] ERROR: Leaf view is not MarkdownView after openFile");
-				}
-			}, 50);
-		}
-	}
-
-	private async navigateToTodo(todo: RelatedTodoItem): Promise<void> {
-		let leaf = this.findMarkdownLeaf(todo.file);
-
-		if (leaf && leaf.view instanceof MarkdownView && leaf.view.file?.path === todo.file.path) {
-			this.app.workspace.setActiveLeaf(leaf, { focus: true });
-			const editor = leaf.view.editor;
-			editor.setCursor({ line: todo.line, ch: 0 });
-			editor.scrollIntoView(
-				{ from: { line: todo.line, ch: 0 }, to: { line: todo.line, ch: 0 } },
-				true
-			);
-		} else {
-			leaf = this.findMarkdownLeaf() ?? this.app.workspace.getLeaf("tab");
-			await leaf.openFile(todo.file);
-			this.app.workspace.setActiveLeaf(leaf, { focus: true });
-
-			setTimeout(() => {
-				if (leaf && leaf.view instanceof MarkdownView) {
-					const editor = leaf.view.editor;
-					editor.setCursor({ line: todo.line, ch: 0 });
-					editor.scrollIntoView(
-						{ from: { line: todo.line, ch: 0 }, to: { line: todo.line, ch: 0 } },
-						true
-					);
-				}
-			}, 50);
-		}
 	}
 }
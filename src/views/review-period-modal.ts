@@ -0,0 +1,51 @@
+import { App, SuggestModal } from "obsidian";
+import type { ReviewPeriod, ReviewPeriodKind, ReviewService } from "../services/review-service";
+
+/** The current period plus this many before it are offered */
+const PREVIOUS_PERIODS = 7;
+
+/**
+ * Picks the week or month to write a review for, current one first
+ */
+export class ReviewPeriodModal extends SuggestModal<ReviewPeriod> {
+	private periods: ReviewPeriod[];
+
+	constructor(
+		app: App,
+		reviewService: ReviewService,
+		kind: ReviewPeriodKind,
+		private onChoose: (period: ReviewPeriod) => void
+	) {
+		super(app);
+		this.periods = Array.from({ length: PREVIOUS_PERIODS + 1 }, (_, offset) =>
+			reviewService.getPeriod(kind, offset)
+		);
+		this.setPlaceholder(kind === "week" ? "Choose a week to review" : "Choose a month to review");
+	}
+
+	getSuggestions(query: string): ReviewPeriod[] {
+		const lower = query.toLowerCase();
+		return this.periods.filter(
+			(period) =>
+				period.label.toLowerCase().includes(lower) ||
+				period.start.includes(lower) ||
+				period.end.includes(lower)
+		);
+	}
+
+	renderSuggestion(period: ReviewPeriod, el: HTMLElement): void {
+		const index = this.periods.indexOf(period);
+		const relative =
+			index === 0
+				? period.kind === "week" ? "This week" : "This month"
+				: index === 1
+					? period.kind === "week" ? "Last week" : "Last month"
+					: period.label;
+		el.createDiv({ text: relative });
+		el.createEl("small", { text: `${period.start} to ${period.end}`, cls: "reflector-card-meta" });
+	}
+
+	onChooseSuggestion(period: ReviewPeriod): void {
+		this.onChoose(period);
+	}
+}
@@ -0,0 +1,244 @@
+import { debounce, ItemView, setIcon, ViewStateResult, WorkspaceLeaf } from "obsidian";
+import type ReflectorPlugin from "../main";
+import { EMPTY_SEARCH_QUERY, MeetingSearchQuery } from "../services/meeting-search";
+import type { MeetingNote } from "../types";
+import { navigateToNote } from "./navigation";
+
+export const VIEW_TYPE_SEARCH = "reflector-search";
+
+interface SearchViewState extends Partial<MeetingSearchQuery> {
+	page?: number;
+}
+
+/** Results per page */
+const PAGE_SIZE = 20;
+
+/**
+ * Searches every meeting note by tags, date range, text and open TODOs,
+ * e.g. all #hiring meetings in Q3 that mention "offer"
+ */
+export class SearchView extends ItemView {
+	plugin: ReflectorPlugin;
+
+	private query: MeetingSearchQuery = { ...EMPTY_SEARCH_QUERY };
+	private page = 0;
+	private notes: MeetingNote[] = [];
+	private resultsEl: HTMLElement | null = null;
+
+	/** Vault changes arrive in bursts while typing; reload once they settle */
+	private requestRefresh = debounce(() => void this.refresh(), 1000, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: ReflectorPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_SEARCH;
+	}
+
+	getDisplayText(): string {
+		return "Search meetings";
+	}
+
+	getIcon(): string {
+		return "search";
+	}
+
+	getState(): Record<string, unknown> {
+		const state: SearchViewState = { ...this.query, page: this.page };
+		return { ...super.getState(), ...state };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const viewState = state as SearchViewState | null;
+		if (viewState) {
+			this.query = {
+				text: typeof viewState.text === "string" ? viewState.text : "",
+				from: typeof viewState.from === "string" ? viewState.from : "",
+				to: typeof viewState.to === "string" ? viewState.to : "",
+				hasOpenTodos: viewState.hasOpenTodos === true,
+			};
+			this.page = typeof viewState.page === "number" ? viewState.page : 0;
+		}
+		await super.setState(state, result);
+		this.render();
+		await this.refresh();
+	}
+
+	async onOpen(): Promise<void> {
+		this.render();
+		await this.refresh();
+	}
+
+	/**
+	 * Called when the vault changes
+	 */
+	onVaultChange(): void {
+		this.requestRefresh();
+	}
+
+	/**
+	 * Reload the meeting index and redraw the results
+	 */
+	async refresh(): Promise<void> {
+		this.notes = await this.plugin.parser.getAllMeetingNotes();
+		this.renderResults();
+	}
+
+	private render(): void {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass("reflector-container");
+
+		const form = container.createDiv({ cls: "reflector-search-form" });
+
+		const searchBar = form.createDiv({ cls: "reflector-filter" });
+		setIcon(searchBar.createSpan({ cls: "reflector-filter-icon" }), "search");
+		const input = searchBar.createEl("input", {
+			type: "text",
+			cls: "reflector-filter-input",
+			placeholder: "Words, \"phrases\", #tag or -#tag",
+			value: this.query.text,
+		});
+		input.addEventListener("input", () => this.updateQuery({ text: input.value }, false));
+		input.addEventListener("change", () => this.app.workspace.requestSaveLayout());
+
+		const dates = form.createDiv({ cls: "reflector-search-dates" });
+		const from = dates.createEl("input", { type: "date", value: this.query.from });
+		from.setAttribute("aria-label", "From date");
+		from.addEventListener("change", () => this.updateQuery({ from: from.value }));
+		dates.createSpan({ text: "to", cls: "reflector-card-meta" });
+		const to = dates.createEl("input", { type: "date", value: this.query.to });
+		to.setAttribute("aria-label", "To date");
+		to.addEventListener("change", () => this.updateQuery({ to: to.value }));
+
+		const openTodos = form.createEl("label", { cls: "reflector-search-option" });
+		const checkbox = openTodos.createEl("input", { type: "checkbox" });
+		checkbox.checked = this.query.hasOpenTodos;
+		checkbox.addEventListener("change", () =>
+			this.updateQuery({ hasOpenTodos: checkbox.checked })
+		);
+		openTodos.appendText("Only meetings with open TODOs");
+
+		const clear = form.createEl("button", { text: "Clear", cls: "mod-muted" });
+		clear.addEventListener("click", () => {
+			this.query = { ...EMPTY_SEARCH_QUERY };
+			this.page = 0;
+			this.app.workspace.requestSaveLayout();
+			this.render();
+		});
+
+		this.resultsEl = container.createDiv({ cls: "reflector-search-results" });
+		this.renderResults();
+	}
+
+	/**
+	 * Apply a change to the query and start again from the first page
+	 */
+	private updateQuery(change: Partial<MeetingSearchQuery>, saveLayout = true): void {
+		this.query = { ...this.query, ...change };
+		this.page = 0;
+		if (saveLayout) {
+			this.app.workspace.requestSaveLayout();
+		}
+		this.renderResults();
+	}
+
+	private renderResults(): void {
+		const list = this.resultsEl;
+		if (!list) return;
+		list.empty();
+
+		const search = this.plugin.meetingSearch;
+		if (search.isEmpty(this.query)) {
+			list.createDiv({
+				text: "Search by text, tags, dates or open TODOs",
+				cls: "reflector-empty",
+			});
+			return;
+		}
+
+		const results = search.search(this.notes, this.query);
+		if (results.length === 0) {
+			list.createDiv({ text: "No meetings match the search", cls: "reflector-empty" });
+			return;
+		}
+
+		const pageCount = Math.ceil(results.length / PAGE_SIZE);
+		this.page = Math.min(Math.max(this.page, 0), pageCount - 1);
+
+		list.createDiv({
+			text: `${results.length} meeting${results.length === 1 ? "" : "s"}`,
+			cls: "reflector-card-meta",
+		});
+
+		const cards = list.createDiv({ cls: "reflector-cards" });
+		for (const note of results.slice(this.page * PAGE_SIZE, (this.page + 1) * PAGE_SIZE)) {
+			this.renderResult(cards, note);
+		}
+
+		if (pageCount > 1) {
+			this.renderPagination(list, pageCount);
+		}
+	}
+
+	private renderResult(container: HTMLElement, note: MeetingNote): void {
+		const card = container.createDiv({ cls: "reflector-card reflector-card-clickable" });
+		card.createDiv({ text: note.title, cls: "reflector-card-title" });
+
+		const time = note.startTime
+			? note.endTime
+				? ` · ${note.startTime}–${note.endTime}`
+				: ` · ${note.startTime}`
+			: "";
+		card.createDiv({ text: `${note.date}${time}`, cls: "reflector-card-meta" });
+
+		const counts = this.plugin.todoService.formatTaskCounts(
+			this.plugin.todoService.countTasks(note.content)
+		);
+		if (counts) {
+			card.createDiv({ text: counts, cls: "reflector-card-meta" });
+		}
+
+		if (note.tags.length > 0) {
+			const tagsDiv = card.createDiv({ cls: "reflector-card-tags" });
+			for (const tag of note.tags) {
+				tagsDiv.createSpan({ text: tag, cls: "reflector-tag reflector-tag-small" });
+			}
+		}
+
+		card.addEventListener("click", () => {
+			console.debug("[Reflector] SEARCH RESULT clicked", { heading: note.heading });
+			void navigateToNote(this.app, note);
+		});
+	}
+
+	private renderPagination(container: HTMLElement, pageCount: number): void {
+		const pagination = container.createDiv({ cls: "reflector-pagination" });
+
+		const previous = pagination.createEl("button", { cls: "clickable-icon" });
+		setIcon(previous, "chevron-left");
+		previous.setAttribute("aria-label", "Previous page");
+		previous.disabled = this.page === 0;
+		previous.addEventListener("click", () => this.goToPage(this.page - 1));
+
+		pagination.createSpan({
+			text: `Page ${this.page + 1} of ${pageCount}`,
+			cls: "reflector-card-meta",
+		});
+
+		const next = pagination.createEl("button", { cls: "clickable-icon" });
+		setIcon(next, "chevron-right");
+		next.setAttribute("aria-label", "Next page");
+		next.disabled = this.page >= pageCount - 1;
+		next.addEventListener("click", () => this.goToPage(this.page + 1));
+	}
+
+	private goToPage(page: number): void {
+		this.page = page;
+		this.app.workspace.requestSaveLayout();
+		this.renderResults();
+		this.resultsEl?.scrollIntoView({ block: "start" });
+	}
+}
@@ -0,0 +1,166 @@
+import { debounce, ItemView, setIcon, WorkspaceLeaf } from "obsidian";
+import type ReflectorPlugin from "../main";
+import type { TagDuplicateReason, TagHealthReport } from "../services/tag-health";
+import { TagRenameModal } from "./tag-rename-modal";
+
+export const VIEW_TYPE_TAG_HEALTH = "reflector-tag-health";
+
+const REASON_LABELS: Record<TagDuplicateReason, string> = {
+	case: "case",
+	separator: "separators",
+	plural: "plural",
+	spelling: "spelling",
+};
+
+/** Rows shown per section before "+ N more" */
+const MAX_ROWS = 50;
+
+/**
+ * Tags worth cleaning up: near-duplicates, tags used only once and tags
+ * meetings stopped using, each with a merge action
+ */
+export class TagHealthView extends ItemView {
+	plugin: ReflectorPlugin;
+
+	/** Vault changes arrive in bursts while typing; reload once they settle */
+	private requestRefresh = debounce(() => void this.refresh(), 1000, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: ReflectorPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_TAG_HEALTH;
+	}
+
+	getDisplayText(): string {
+		return "Tag health";
+	}
+
+	getIcon(): string {
+		return "heart-pulse";
+	}
+
+	async onOpen(): Promise<void> {
+		await this.refresh();
+	}
+
+	/**
+	 * Called when the vault changes
+	 */
+	onVaultChange(): void {
+		this.requestRefresh();
+	}
+
+	/**
+	 * Rebuild the report and redraw
+	 */
+	async refresh(): Promise<void> {
+		const report = await this.plugin.tagHealthService.getReport();
+		this.render(report);
+	}
+
+	private render(report: TagHealthReport): void {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass("reflector-container");
+
+		if (report.duplicates.length === 0 && report.singletons.length === 0 && report.stale.length === 0) {
+			const successDiv = container.createDiv({ cls: "reflector-success" });
+			setIcon(successDiv.createSpan({ cls: "reflector-success-icon" }), "check-circle");
+			successDiv.createSpan({ text: "Your tags look healthy", cls: "reflector-success-text" });
+			return;
+		}
+
+		this.renderDuplicates(container, report);
+		this.renderSingletons(container, report);
+		this.renderStale(container, report);
+	}
+
+	private renderDuplicates(container: HTMLElement, report: TagHealthReport): void {
+		if (report.duplicates.length === 0) return;
+
+		const section = this.renderSection(container, "copy", "Near-duplicates", report.duplicates.length);
+		for (const group of report.duplicates.slice(0, MAX_ROWS)) {
+			const row = section.createDiv({ cls: "reflector-tag-health-row" });
+			const tags = row.createDiv({ cls: "reflector-card-tags" });
+			for (const [tag, count] of group.tags) {
+				tags.createSpan({ text: `${tag} ${count}×`, cls: "reflector-tag reflector-tag-small" });
+			}
+			row.createDiv({
+				text: `Differ in ${group.reasons.map((reason) => REASON_LABELS[reason]).join(", ")}`,
+				cls: "reflector-card-meta",
+			});
+
+			const others = group.tags.map(([tag]) => tag).filter((tag) => tag !== group.target);
+			this.renderMergeButton(row, `Merge into ${group.target}`, others, group.target);
+		}
+		this.renderOverflow(section, report.duplicates.length);
+	}
+
+	private renderSingletons(container: HTMLElement, report: TagHealthReport): void {
+		if (report.singletons.length === 0) return;
+
+		const section = this.renderSection(container, "hash", "Used once", report.singletons.length);
+		for (const { tag, target } of report.singletons.slice(0, MAX_ROWS)) {
+			const row = section.createDiv({ cls: "reflector-tag-health-row reflector-tag-health-inline" });
+			row.createSpan({ text: tag, cls: "reflector-tag reflector-tag-small" });
+			if (target) {
+				this.renderMergeButton(row, `Merge into ${target}`, [tag], target);
+			} else {
+				this.renderMergeButton(row, "Merge…", [tag]);
+			}
+		}
+		this.renderOverflow(section, report.singletons.length);
+	}
+
+	private renderStale(container: HTMLElement, report: TagHealthReport): void {
+		if (report.stale.length === 0) return;
+
+		const months = this.plugin.settings.staleTagMonths;
+		const section = this.renderSection(
+			container,
+			"history",
+			`Not used in ${months} month${months === 1 ? "" : "s"}`,
+			report.stale.length
+		);
+		for (const stale of report.stale.slice(0, MAX_ROWS)) {
+			const row = section.createDiv({ cls: "reflector-tag-health-row reflector-tag-health-inline" });
+			row.createSpan({ text: stale.tag, cls: "reflector-tag reflector-tag-small" });
+			row.createSpan({
+				text: `Last ${stale.lastUsed} · ${stale.meetingCount} meeting${stale.meetingCount === 1 ? "" : "s"}`,
+				cls: "reflector-card-meta",
+			});
+			this.renderMergeButton(row, "Merge…", [stale.tag]);
+		}
+		this.renderOverflow(section, report.stale.length);
+	}
+
+	private renderSection(container: HTMLElement, icon: string, title: string, count: number): HTMLElement {
+		const section = container.createDiv({ cls: "reflector-section" });
+		const header = section.createDiv({ cls: "reflector-header" });
+		setIcon(header.createSpan({ cls: "reflector-header-icon" }), icon);
+		header.createSpan({ text: title, cls: "reflector-header-title" });
+		header.createSpan({ text: String(count), cls: "reflector-header-count" });
+		return section;
+	}
+
+	/**
+	 * Open the rename modal filled in. With a target it previews right away,
+	 * so merging takes one more click to apply.
+	 */
+	private renderMergeButton(row: HTMLElement, label: string, fromTags: string[], toTag = ""): void {
+		const button = row.createEl("button", { text: label, cls: "mod-muted reflector-tag-health-action" });
+		button.addEventListener("click", () => {
+			console.debug("[Reflector] TAG HEALTH merge clicked", { fromTags, toTag });
+			new TagRenameModal(this.app, this.plugin, fromTags, toTag).open();
+		});
+	}
+
+	private renderOverflow(section: HTMLElement, total: number): void {
+		if (total > MAX_ROWS) {
+			section.createDiv({ text: `+ ${total - MAX_ROWS} more`, cls: "reflector-overflow" });
+		}
+	}
+}
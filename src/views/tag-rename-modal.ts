@@ -0,0 +1,181 @@
+import { App, Modal, Notice, Setting } from "obsidian";
+import type ReflectorPlugin from "../main";
+import type { TagRewriteFilePlan } from "../services/tag-rewriter";
+
+/** Files shown in full in the preview; the rest are only counted */
+const MAX_PREVIEW_FILES = 50;
+
+/**
+ * Renames a tag, or merges several tags into one, across the whole vault.
+ * Shows a diff-style preview of every change before writing anything.
+ */
+export class TagRenameModal extends Modal {
+	private plugin: ReflectorPlugin;
+	private fromText: string;
+	private toText: string;
+	private plans: TagRewriteFilePlan[] = [];
+	private previewEl: HTMLElement | null = null;
+	private applyButton: HTMLButtonElement | null = null;
+
+	constructor(app: App, plugin: ReflectorPlugin, fromTags: string[] = [], toTag = "") {
+		super(app);
+		this.plugin = plugin;
+		this.fromText = fromTags.join(", ");
+		this.toText = toTag;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.modalEl.addClass("reflector-tag-rename");
+		this.setTitle("Rename or merge tags");
+
+		// Offer existing tags, most used first
+		const tagList = contentEl.createEl("datalist", { attr: { id: "reflector-vault-tags" } });
+		const tagCounts = this.plugin.tagService.getAllVaultTags();
+		for (const [tag, count] of [...tagCounts].sort((a, b) => b[1] - a[1])) {
+			tagList.createEl("option", { value: tag, text: `${count}×` });
+		}
+
+		new Setting(contentEl)
+			.setName("Tags to rename")
+			.setDesc("One tag, or several comma-separated tags to merge. Nested tags move along.")
+			.addText((text) => {
+				text.inputEl.setAttribute("list", "reflector-vault-tags");
+				text
+					.setPlaceholder("#proj-alpha, #alpha")
+					.setValue(this.fromText)
+					.onChange((value) => {
+						this.fromText = value;
+						this.clearPreview();
+					});
+			});
+
+		new Setting(contentEl)
+			.setName("New tag")
+			.addText((text) => {
+				text.inputEl.setAttribute("list", "reflector-vault-tags");
+				text
+					.setPlaceholder("#project-alpha")
+					.setValue(this.toText)
+					.onChange((value) => {
+						this.toText = value;
+						this.clearPreview();
+					});
+			});
+
+		new Setting(contentEl)
+			.addButton((button) =>
+				button.setButtonText("Preview").onClick(() => void this.preview())
+			)
+			.addButton((button) => {
+				this.applyButton = button.buttonEl;
+				button
+					.setButtonText("Apply")
+					.setCta()
+					.setDisabled(true)
+					.onClick(() => void this.apply());
+			});
+
+		this.previewEl = contentEl.createDiv({ cls: "reflector-rename-preview" });
+
+		if (this.fromText && this.toText) {
+			void this.preview();
+		}
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private getFromTags(): string[] {
+		return this.fromText
+			.split(",")
+			.map((tag) => tag.trim())
+			.filter(Boolean);
+	}
+
+	private clearPreview(): void {
+		this.plans = [];
+		this.previewEl?.empty();
+		this.applyButton?.toggleAttribute("disabled", true);
+	}
+
+	private async preview(): Promise<void> {
+		const fromTags = this.getFromTags();
+		const toTag = this.toText.trim();
+		if (fromTags.length === 0 || !/^#?[\w/-]+$/.test(toTag)) {
+			new Notice("Enter the tags to rename and a valid new tag");
+			return;
+		}
+
+		this.plans = await this.plugin.tagRewriter.plan(fromTags, toTag);
+		this.renderPreview();
+		this.applyButton?.toggleAttribute("disabled", this.plans.length === 0);
+	}
+
+	private renderPreview(): void {
+		const container = this.previewEl;
+		if (!container) return;
+		container.empty();
+
+		if (this.plans.length === 0) {
+			container.createDiv({ text: "No files use these tags", cls: "reflector-empty" });
+			return;
+		}
+
+		const replacements = this.plans.reduce((sum, plan) => sum + plan.replacements, 0);
+		container.createDiv({
+			text: `${replacements} tag${replacements === 1 ? "" : "s"} in ${this.plans.length} file${this.plans.length === 1 ? "" : "s"} will change`,
+			cls: "reflector-rename-summary",
+		});
+
+		for (const plan of this.plans.slice(0, MAX_PREVIEW_FILES)) {
+			const fileDiv = container.createDiv({ cls: "reflector-rename-file" });
+			fileDiv.createDiv({ text: plan.file.path, cls: "reflector-card-title" });
+			if (plan.meetingHeadings.length > 0) {
+				fileDiv.createDiv({
+					text: `Meetings: ${plan.meetingHeadings.join(", ")}`,
+					cls: "reflector-card-meta",
+				});
+			}
+
+			const diff = fileDiv.createEl("pre", { cls: "reflector-rename-diff" });
+			for (const change of plan.changes) {
+				diff.createDiv({ text: `- ${change.before}`, cls: "reflector-diff-removed" });
+				diff.createDiv({ text: `+ ${change.after}`, cls: "reflector-diff-added" });
+			}
+		}
+
+		if (this.plans.length > MAX_PREVIEW_FILES) {
+			container.createDiv({
+				text: `+ ${this.plans.length - MAX_PREVIEW_FILES} more files`,
+				cls: "reflector-overflow",
+			});
+		}
+	}
+
+	private async apply(): Promise<void> {
+		if (this.plans.length === 0) return;
+
+		this.applyButton?.toggleAttribute("disabled", true);
+		try {
+			const result = await this.plugin.tagRewriter.apply(this.plans);
+			if (result.conflicts.length > 0) {
+				new Notice(
+					`${result.conflicts.length} file(s) changed since the preview. Nothing was written; preview again.`
+				);
+				this.clearPreview();
+				return;
+			}
+
+			new Notice(
+				`Renamed ${result.replacements} tag${result.replacements === 1 ? "" : "s"} in ${result.filesChanged} file${result.filesChanged === 1 ? "" : "s"}`
+			);
+			this.close();
+		} catch (error) {
+			console.error("[Reflector] Tag rename failed, changes rolled back", error);
+			new Notice("Tag rename failed. No files were changed.");
+			this.applyButton?.toggleAttribute("disabled", false);
+		}
+	}
+}
@@ -0,0 +1,56 @@
+import { App, Modal, Setting } from "obsidian";
+
+/**
+ * Asks for a single value, such as a task's new text or due date.
+ * Enter or Save submits; closing the modal cancels.
+ */
+export class TextPromptModal extends Modal {
+	private value: string;
+
+	constructor(
+		app: App,
+		private title: string,
+		initialValue: string,
+		private onSubmit: (value: string) => void,
+		private inputType: "text" | "date" = "text"
+	) {
+		super(app);
+		this.value = initialValue;
+	}
+
+	onOpen(): void {
+		const { contentEl } = this;
+		this.setTitle(this.title);
+
+		new Setting(contentEl).addText((text) => {
+			text.inputEl.type = this.inputType;
+			text.inputEl.addClass("reflector-prompt-input");
+			text.setValue(this.value).onChange((value) => {
+				this.value = value;
+			});
+			text.inputEl.addEventListener("keydown", (evt) => {
+				if (evt.key === "Enter") {
+					evt.preventDefault();
+					this.submit();
+				}
+			});
+			window.setTimeout(() => text.inputEl.focus(), 0);
+		});
+
+		new Setting(contentEl).addButton((button) =>
+			button
+				.setButtonText("Save")
+				.setCta()
+				.onClick(() => this.submit())
+		);
+	}
+
+	onClose(): void {
+		this.contentEl.empty();
+	}
+
+	private submit(): void {
+		this.close();
+		this.onSubmit(this.value.trim());
+	}
+}
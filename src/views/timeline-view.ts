@@ -0,0 +1,391 @@
+import { debounce, ItemView, moment, ViewStateResult, WorkspaceLeaf } from "obsidian";
+import type ReflectorPlugin from "../main";
+import type { MeetingNote } from "../types";
+import { navigateToNote } from "./navigation";
+
+export const VIEW_TYPE_TIMELINE = "reflector-timeline";
+
+interface TimelineViewState {
+	tag?: string;
+	weeks?: number;
+	selectedDate?: string | null;
+}
+
+/** Ranges to choose from, in weeks */
+const RANGES: [number, string][] = [
+	[13, "Last 3 months"],
+	[26, "Last 6 months"],
+	[52, "Last 12 months"],
+];
+
+/** Tags shown in the topic timeline when no tag is selected */
+const MAX_TOPICS = 10;
+
+/**
+ * How often a tag came up, for the topic timeline
+ */
+interface TopicTimeline {
+	tag: string;
+	/** Meetings per week column */
+	weeks: number[];
+	total: number;
+	lastDate: string;
+	/** Longest stretch in days without a meeting, including up to today */
+	longestGap: number;
+}
+
+/**
+ * A calendar heatmap of meetings per day and a timeline of when each topic
+ * came up, to see how often a project was discussed and spot long gaps
+ */
+export class TimelineView extends ItemView {
+	plugin: ReflectorPlugin;
+
+	/** Lowercased tag, or "" for every meeting */
+	private tag = "";
+	private weeks = 26;
+	private selectedDate: string | null = null;
+	private notes: MeetingNote[] = [];
+
+	/** Vault changes arrive in bursts while typing; reload once they settle */
+	private requestRefresh = debounce(() => void this.refresh(), 1000, true);
+
+	constructor(leaf: WorkspaceLeaf, plugin: ReflectorPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_TIMELINE;
+	}
+
+	getDisplayText(): string {
+		return "Meeting timeline";
+	}
+
+	getIcon(): string {
+		return "calendar-days";
+	}
+
+	getState(): Record<string, unknown> {
+		const state: TimelineViewState = {
+			tag: this.tag,
+			weeks: this.weeks,
+			selectedDate: this.selectedDate,
+		};
+		return { ...super.getState(), ...state };
+	}
+
+	async setState(state: unknown, result: ViewStateResult): Promise<void> {
+		const viewState = state as TimelineViewState | null;
+		if (typeof viewState?.tag === "string") {
+			this.tag = viewState.tag;
+		}
+		if (RANGES.some(([weeks]) => weeks === viewState?.weeks)) {
+			this.weeks = viewState?.weeks ?? this.weeks;
+		}
+		if (viewState?.selectedDate !== undefined) {
+			this.selectedDate = viewState.selectedDate;
+		}
+		await super.setState(state, result);
+		await this.refresh();
+	}
+
+	async onOpen(): Promise<void> {
+		await this.refresh();
+	}
+
+	/**
+	 * Called when the vault changes
+	 */
+	onVaultChange(): void {
+		this.requestRefresh();
+	}
+
+	/**
+	 * Reload the meeting index and redraw
+	 */
+	async refresh(): Promise<void> {
+		this.notes = await this.plugin.parser.getAllMeetingNotes();
+		this.render();
+	}
+
+	private render(): void {
+		const container = this.containerEl.children[1] as HTMLElement;
+		container.empty();
+		container.addClass("reflector-container");
+
+		this.renderToolbar(container);
+
+		const start = this.getRangeStart();
+		const notes = this.filterByTag(this.notes, this.tag).filter(
+			(note) => note.date >= start.format("YYYY-MM-DD")
+		);
+		const byDate = new Map<string, MeetingNote[]>();
+		for (const note of notes) {
+			const day = byDate.get(note.date) ?? [];
+			day.push(note);
+			byDate.set(note.date, day);
+		}
+
+		container.createDiv({
+			text: `${notes.length} meeting${notes.length === 1 ? "" : "s"} on ${byDate.size} day${byDate.size === 1 ? "" : "s"}`,
+			cls: "reflector-card-meta",
+		});
+		this.renderHeatmap(container, byDate);
+
+		if (this.selectedDate) {
+			this.renderDay(container, this.selectedDate, byDate.get(this.selectedDate) ?? []);
+		}
+
+		this.renderTopics(container, notes);
+	}
+
+	private renderToolbar(container: HTMLElement): void {
+		const toolbar = container.createDiv({ cls: "reflector-action-toolbar" });
+
+		const tagCounts = this.getTagCounts(this.notes);
+		const tagSelect = toolbar.createEl("select", { cls: "dropdown" });
+		tagSelect.createEl("option", { value: "", text: "All meetings" });
+		for (const [tag, count] of tagCounts) {
+			tagSelect.createEl("option", { value: tag, text: `${tag} (${count})` });
+		}
+		// Keep a saved tag selectable even when no meeting uses it anymore
+		if (this.tag && !tagCounts.has(this.tag)) {
+			tagSelect.createEl("option", { value: this.tag, text: this.tag });
+		}
+		tagSelect.value = this.tag;
+		tagSelect.addEventListener("change", () => this.setTag(tagSelect.value));
+
+		const rangeSelect = toolbar.createEl("select", { cls: "dropdown" });
+		for (const [weeks, label] of RANGES) {
+			rangeSelect.createEl("option", { value: String(weeks), text: label });
+		}
+		rangeSelect.value = String(this.weeks);
+		rangeSelect.addEventListener("change", () => {
+			this.weeks = Number(rangeSelect.value);
+			this.app.workspace.requestSaveLayout();
+			this.render();
+		});
+	}
+
+	/**
+	 * Weeks as columns, days as rows, shaded by the number of meetings
+	 */
+	private renderHeatmap(container: HTMLElement, byDate: Map<string, MeetingNote[]>): void {
+		const heatmap = container.createDiv({ cls: "reflector-heatmap" });
+		heatmap.setCssProps({ "--reflector-heatmap-weeks": String(this.weeks) });
+
+		const max = Math.max(1, ...[...byDate.values()].map((day) => day.length));
+		const today = moment().format("YYYY-MM-DD");
+		const day = this.getRangeStart();
+
+		for (let week = 0; week < this.weeks; week++) {
+			// Label the column of the week a month starts in
+			const weekEnd = day.clone().add(6, "days");
+			const label = heatmap.createDiv({ cls: "reflector-heatmap-month" });
+			if (week === 0 || weekEnd.date() <= 7) {
+				label.setText(weekEnd.format("MMM"));
+			}
+
+			for (let weekday = 0; weekday < 7; weekday++) {
+				const date = day.format("YYYY-MM-DD");
+				const cell = heatmap.createDiv({ cls: "reflector-heatmap-cell" });
+				if (date > today) {
+					cell.addClass("reflector-heatmap-future");
+				} else {
+					const count = byDate.get(date)?.length ?? 0;
+					cell.addClass(`reflector-heatmap-level-${this.getLevel(count, max)}`);
+					cell.setAttribute(
+						"aria-label",
+						`${day.format("ddd, MMM D, YYYY")}: ${count} meeting${count === 1 ? "" : "s"}`
+					);
+					if (date === this.selectedDate) {
+						cell.addClass("reflector-heatmap-selected");
+					}
+					cell.addEventListener("click", () => {
+						this.selectedDate = this.selectedDate === date ? null : date;
+						this.app.workspace.requestSaveLayout();
+						this.render();
+					});
+				}
+				day.add(1, "day");
+			}
+		}
+	}
+
+	/**
+	 * The meetings of the clicked day
+	 */
+	private renderDay(container: HTMLElement, date: string, notes: MeetingNote[]): void {
+		const section = container.createDiv({ cls: "reflector-section" });
+		const header = section.createDiv({ cls: "reflector-header" });
+		header.createSpan({
+			text: moment(date, "YYYY-MM-DD").format("dddd, MMMM D, YYYY"),
+			cls: "reflector-header-title",
+		});
+		header.createSpan({ text: String(notes.length), cls: "reflector-header-count" });
+
+		if (notes.length === 0) {
+			section.createDiv({ text: "No meetings on this day", cls: "reflector-empty" });
+			return;
+		}
+
+		const cards = section.createDiv({ cls: "reflector-cards" });
+		const sorted = [...notes].sort((a, b) =>
+			(a.startTime ?? "99:99").localeCompare(b.startTime ?? "99:99")
+		);
+		for (const note of sorted) {
+			const card = cards.createDiv({ cls: "reflector-card reflector-card-clickable" });
+			card.createDiv({ text: note.title, cls: "reflector-card-title" });
+			if (note.startTime) {
+				card.createDiv({
+					text: note.endTime ? `${note.startTime}–${note.endTime}` : note.startTime,
+					cls: "reflector-card-meta reflector-card-time",
+				});
+			}
+			if (note.tags.length > 0) {
+				const tagsDiv = card.createDiv({ cls: "reflector-card-tags" });
+				for (const tag of note.tags) {
+					tagsDiv.createSpan({ text: tag, cls: "reflector-tag reflector-tag-small" });
+				}
+			}
+			card.addEventListener("click", () => {
+				console.debug("[Reflector] TIMELINE card clicked", { heading: note.heading });
+				void navigateToNote(this.app, note);
+			});
+		}
+	}
+
+	/**
+	 * One row per tag showing the weeks it came up in, with its longest gap.
+	 * Shows the most used tags of the range, or only the selected one.
+	 */
+	private renderTopics(container: HTMLElement, notes: MeetingNote[]): void {
+		const tags = this.tag
+			? [this.tag]
+			: [...this.getTagCounts(notes).keys()].slice(0, MAX_TOPICS);
+
+		const section = container.createDiv({ cls: "reflector-section" });
+		const header = section.createDiv({ cls: "reflector-header" });
+		header.createSpan({ text: "Topics", cls: "reflector-header-title" });
+
+		const topics = tags
+			.map((tag) => this.getTopicTimeline(tag))
+			.filter((topic): topic is TopicTimeline => topic !== null);
+		if (topics.length === 0) {
+			section.createDiv({ text: "No tagged meetings in this range", cls: "reflector-empty" });
+			return;
+		}
+
+		for (const topic of topics) {
+			const row = section.createDiv({ cls: "reflector-topic" });
+			const label = row.createDiv({ cls: "reflector-topic-label" });
+			label.createSpan({ text: topic.tag, cls: "reflector-tag reflector-tag-small" });
+			label.createSpan({
+				text: `${topic.total}× · last ${topic.lastDate} · longest gap ${topic.longestGap} days`,
+				cls: "reflector-card-meta",
+			});
+
+			const strip = row.createDiv({ cls: "reflector-topic-strip" });
+			strip.setCssProps({ "--reflector-heatmap-weeks": String(this.weeks) });
+			const max = Math.max(1, ...topic.weeks);
+			for (const count of topic.weeks) {
+				strip.createDiv({
+					cls: `reflector-heatmap-cell reflector-heatmap-level-${this.getLevel(count, max)}`,
+				});
+			}
+
+			if (!this.tag) {
+				row.addClass("reflector-card-clickable");
+				row.addEventListener("click", () => this.setTag(topic.tag));
+			}
+		}
+	}
+
+	private setTag(tag: string): void {
+		this.tag = tag;
+		this.selectedDate = null;
+		this.app.workspace.requestSaveLayout();
+		this.render();
+	}
+
+	/**
+	 * Meetings per week for a tag within the range, or null if it never came up
+	 */
+	private getTopicTimeline(tag: string): TopicTimeline | null {
+		const start = this.getRangeStart();
+		const startDate = start.format("YYYY-MM-DD");
+		const notes = this.filterByTag(this.notes, tag).filter((note) => note.date >= startDate);
+		if (notes.length === 0) return null;
+
+		const weeks = new Array<number>(this.weeks).fill(0);
+		for (const note of notes) {
+			const week = moment(note.date, "YYYY-MM-DD").diff(start, "weeks");
+			if (week >= 0 && week < this.weeks) {
+				weeks[week] = (weeks[week] ?? 0) + 1;
+			}
+		}
+
+		// Gaps between consecutive days it came up, from the range start to today
+		const dates = [...new Set(notes.map((note) => note.date))].sort();
+		const days = [startDate, ...dates, moment().format("YYYY-MM-DD")].map((date) =>
+			moment(date, "YYYY-MM-DD")
+		);
+		let longestGap = 0;
+		for (let i = 1; i < days.length; i++) {
+			longestGap = Math.max(longestGap, days[i]?.diff(days[i - 1], "days") ?? 0);
+		}
+
+		return {
+			tag,
+			weeks,
+			total: notes.length,
+			lastDate: dates[dates.length - 1] ?? "",
+			longestGap,
+		};
+	}
+
+	/**
+	 * Lowercased tag -> number of meetings, most used first
+	 */
+	private getTagCounts(notes: MeetingNote[]): Map<string, number> {
+		const counts = new Map<string, number>();
+		for (const note of notes) {
+			for (const tag of new Set(note.tags.map((t) => t.toLowerCase()))) {
+				counts.set(tag, (counts.get(tag) ?? 0) + 1);
+			}
+		}
+		return new Map([...counts].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])));
+	}
+
+	/**
+	 * Meetings with a tag or one of its nested tags
+	 */
+	private filterByTag(notes: MeetingNote[], tag: string): MeetingNote[] {
+		if (!tag) return notes;
+		return notes.filter((note) =>
+			note.tags.some((t) => {
+				const lower = t.toLowerCase();
+				return lower === tag || lower.startsWith(`${tag}/`);
+			})
+		);
+	}
+
+	/**
+	 * First day of the first week shown
+	 */
+	private getRangeStart(): moment.Moment {
+		return moment()
+			.startOf("week")
+			.subtract(this.weeks - 1, "weeks");
+	}
+
+	/**
+	 * Shade from 0 (none) to 4 (the busiest)
+	 */
+	private getLevel(count: number, max: number): number {
+		if (count === 0) return 0;
+		return Math.max(1, Math.ceil((count / max) * 4));
+	}
+}
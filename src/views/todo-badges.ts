@@ -0,0 +1,40 @@
+import { setIcon } from "obsidian";
+import { isOverdue } from "../services/task-metadata";
+import type { TaskStatus, TodoItem } from "../types";
+
+/** Checkbox icon for each task status */
+export const TODO_STATUS_ICONS: Record<TaskStatus, string> = {
+	open: "square",
+	"in-progress": "square-slash",
+	done: "check-square",
+	cancelled: "x-square",
+	forwarded: "arrow-right-square",
+};
+
+/**
+ * Render a task's due date, priority and recurrence as compact badges
+ */
+export function renderTodoMetadata(container: HTMLElement, todo: TodoItem): void {
+	if (todo.dueDate) {
+		const overdue = isOverdue(todo);
+		container.createSpan({
+			text: overdue ? `Overdue ${todo.dueDate}` : `Due ${todo.dueDate}`,
+			cls: `reflector-todo-badge ${overdue ? "reflector-todo-badge-overdue" : ""}`,
+		});
+	} else if (todo.scheduledDate) {
+		container.createSpan({ text: `Scheduled ${todo.scheduledDate}`, cls: "reflector-todo-badge" });
+	}
+
+	if (todo.priority !== "none") {
+		container.createSpan({
+			text: todo.priority,
+			cls: `reflector-todo-badge reflector-todo-priority-${todo.priority}`,
+		});
+	}
+
+	if (todo.recurrence) {
+		const recurrence = container.createSpan({ cls: "reflector-todo-badge" });
+		setIcon(recurrence, "repeat");
+		recurrence.setAttribute("aria-label", todo.recurrence);
+	}
+}
@@ -0,0 +1,214 @@
+import { App, Component, MarkdownRenderer, Modal, Notice, setIcon } from "obsidian";
+import type ReflectorPlugin from "../main";
+import type { MeetingNote, TagSuggestion } from "../types";
+
+/** Number keys 1-9 accept the matching suggestion */
+const MAX_SUGGESTIONS = 9;
+
+/**
+ * Walks through every untagged meeting note one at a time, showing its
+ * content and tag suggestions, with hotkeys to tag, skip or ignore it.
+ * Tags are written to the file directly, without switching the active editor.
+ */
+export class TriageModal extends Modal {
+	private plugin: ReflectorPlugin;
+	private notes: MeetingNote[] = [];
+	private index = 0;
+	private suggestions: TagSuggestion[] = [];
+	/** Tags added to the current note during this triage session */
+	private appliedTags: string[] = [];
+	private tagInput: HTMLInputElement | null = null;
+	/** Owns the rendered markdown preview, so it can be cleaned up */
+	private previewComponent = new Component();
+
+	constructor(app: App, plugin: ReflectorPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	async onOpen(): Promise<void> {
+		this.modalEl.addClass("reflector-triage");
+		this.previewComponent.load();
+		this.registerHotkeys();
+
+		this.notes = await this.plugin.parser.getUntaggedMeetingNotes();
+		await this.showNote();
+	}
+
+	onClose(): void {
+		this.previewComponent.unload();
+		this.contentEl.empty();
+	}
+
+	private registerHotkeys(): void {
+		// Let keys through to the tag input while it's being typed in
+		const unlessTyping = (handler: () => void) => (evt: KeyboardEvent) => {
+			if (evt.target instanceof HTMLInputElement) return true;
+			handler();
+			return false;
+		};
+
+		for (let n = 1; n <= MAX_SUGGESTIONS; n++) {
+			this.scope.register([], String(n), unlessTyping(() => void this.acceptSuggestion(n - 1)));
+		}
+		this.scope.register([], "t", unlessTyping(() => this.tagInput?.focus()));
+		this.scope.register([], "s", unlessTyping(() => void this.next()));
+		this.scope.register([], "ArrowRight", unlessTyping(() => void this.next()));
+		this.scope.register([], "ArrowLeft", unlessTyping(() => void this.previous()));
+		this.scope.register([], "i", unlessTyping(() => void this.markIntentionallyUntagged()));
+	}
+
+	private get currentNote(): MeetingNote | null {
+		return this.notes[this.index] ?? null;
+	}
+
+	private async showNote(): Promise<void> {
+		const { contentEl } = this;
+		contentEl.empty();
+		this.previewComponent.unload();
+		this.previewComponent = new Component();
+		this.previewComponent.load();
+
+		const note = this.currentNote;
+		if (!note) {
+			this.setTitle("Triage complete");
+			contentEl.createDiv({
+				text: this.notes.length === 0 ? "All notes tagged" : "No more untagged notes",
+				cls: "reflector-empty",
+			});
+			return;
+		}
+
+		this.setTitle(`Untagged note ${this.index + 1} of ${this.notes.length}`);
+
+		const header = contentEl.createDiv({ cls: "reflector-triage-note" });
+		header.createDiv({ text: note.heading, cls: "reflector-card-title" });
+		header.createDiv({ text: `${note.date} · ${note.file.basename}`, cls: "reflector-card-meta" });
+
+		if (this.appliedTags.length > 0) {
+			const tagsDiv = header.createDiv({ cls: "reflector-card-tags" });
+			for (const tag of this.appliedTags) {
+				tagsDiv.createSpan({ text: tag, cls: "reflector-tag reflector-tag-small" });
+			}
+		}
+
+		const preview = contentEl.createDiv({ cls: "reflector-triage-preview" });
+		if (note.content.trim()) {
+			await MarkdownRenderer.render(this.app, note.content, preview, note.file.path, this.previewComponent);
+		} else {
+			preview.createDiv({ text: "No content", cls: "reflector-card-empty" });
+		}
+
+		this.suggestions = (await this.plugin.tagService.suggestTags(note))
+			.filter((s) => !this.appliedTags.includes(s.tag))
+			.slice(0, MAX_SUGGESTIONS);
+		this.renderSuggestions(contentEl);
+		this.renderTagInput(contentEl);
+		this.renderHotkeyHints(contentEl);
+	}
+
+	private renderSuggestions(container: HTMLElement): void {
+		const section = container.createDiv({ cls: "reflector-suggestions reflector-triage-suggestions" });
+		if (this.suggestions.length === 0) {
+			section.createDiv({ text: "No suggestions", cls: "reflector-empty" });
+			return;
+		}
+
+		this.suggestions.forEach((suggestion, i) => {
+			const item = section.createDiv({ cls: "reflector-suggestion reflector-suggestion-clickable" });
+			item.createSpan({ text: String(i + 1), cls: "reflector-triage-key" });
+			item.createSpan({ text: suggestion.tag, cls: "reflector-tag" });
+			item.createSpan({ text: suggestion.reason, cls: "reflector-suggestion-reason" });
+			item.addEventListener("click", () => void this.acceptSuggestion(i));
+		});
+	}
+
+	private renderTagInput(container: HTMLElement): void {
+		const row = container.createDiv({ cls: "reflector-filter reflector-triage-input" });
+		setIcon(row.createSpan({ cls: "reflector-filter-icon" }), "hash");
+		this.tagInput = row.createEl("input", {
+			type: "text",
+			cls: "reflector-filter-input",
+			placeholder: "Type a tag and press enter",
+		});
+		this.tagInput.addEventListener("keydown", (evt) => {
+			if (evt.key === "Enter" && this.tagInput?.value.trim()) {
+				evt.preventDefault();
+				void this.applyTag(this.tagInput.value.trim());
+			} else if (evt.key === "Escape") {
+				// Leave the input instead of closing the modal
+				evt.stopPropagation();
+				this.tagInput?.blur();
+			}
+		});
+	}
+
+	private renderHotkeyHints(container: HTMLElement): void {
+		const hints = container.createDiv({ cls: "reflector-triage-hints" });
+		const nextLabel = this.appliedTags.length > 0 ? "next" : "skip";
+		for (const [key, label] of [
+			["1-9", "accept"],
+			["t", "type tag"],
+			["s / →", nextLabel],
+			["←", "back"],
+			["i", "intentionally untagged"],
+		]) {
+			const hint = hints.createSpan({ cls: "reflector-triage-hint" });
+			hint.createEl("kbd", { text: key });
+			hint.createSpan({ text: ` ${label}` });
+		}
+	}
+
+	private async acceptSuggestion(i: number): Promise<void> {
+		const suggestion = this.suggestions[i];
+		if (suggestion) {
+			await this.applyTag(suggestion.tag);
+		}
+	}
+
+	private async applyTag(rawTag: string): Promise<void> {
+		const note = this.currentNote;
+		if (!note) return;
+
+		const tag = rawTag.startsWith("#") ? rawTag : `#${rawTag}`;
+		if (!/^#[\w/-]+$/.test(tag)) {
+			new Notice(`Invalid tag: ${tag}`);
+			return;
+		}
+
+		const written = await this.plugin.tagWriter.addTag(note, tag);
+		if (!written) {
+			new Notice(`Could not find "${note.heading}" in ${note.file.basename}`);
+			return;
+		}
+
+		// Stay on the note so more tags can be added; the next key moves on
+		this.appliedTags.push(tag);
+		await this.showNote();
+	}
+
+	private async next(): Promise<void> {
+		if (this.index >= this.notes.length) return;
+		this.index++;
+		this.appliedTags = [];
+		await this.showNote();
+	}
+
+	private async previous(): Promise<void> {
+		if (this.index === 0) return;
+		this.index--;
+		this.appliedTags = [];
+		await this.showNote();
+	}
+
+	private async markIntentionallyUntagged(): Promise<void> {
+		const note = this.currentNote;
+		if (!note) return;
+
+		await this.plugin.markIntentionallyUntagged(note);
+		// Drop it from this session's list so the position stays on the next note
+		this.notes.splice(this.index, 1);
+		this.appliedTags = [];
+		await this.showNote();
+	}
+}